@@ -2,9 +2,9 @@ import express from 'express';
 import cors from 'cors';
 import http from 'http';
 import dotenv from 'dotenv';
-import tokenRoutes from './routes/tokens';
-import healthRoutes from './routes/health';
+import { apiRoutes } from './routes';
 import { WebSocketService } from './services/websocket';
+import { PlainSocketServer } from './services/plainsocket';
 import { SchedulerService } from './services/scheduler';
 import logger from './utils/logger';
 
@@ -29,8 +29,7 @@ app.use((req, _res, next) => {
 });
 
 // Routes
-app.use('/api/tokens', tokenRoutes);
-app.use('/api/health', healthRoutes);
+apiRoutes.forEach(({ path, router }) => app.use(path, router));
 
 // Root endpoint
 app.get('/', (_req, res) => {
@@ -40,23 +39,37 @@ app.get('/', (_req, res) => {
     endpoints: {
       tokens: '/api/tokens',
       health: '/api/health',
+      admin: '/api/admin',
+      alerts: '/api/alerts',
+      stream: '/api/tokens/stream',
       websocket: '/socket.io',
+      plain_websocket: '/ws',
+      openapi: '/api/openapi.json',
+      docs: '/api/docs',
     },
   });
 });
 
 // Initialize WebSocket service
 const wsService = new WebSocketService(httpServer);
+app.locals.websocket = wsService;
 const updateInterval = parseInt(process.env.WEBSOCKET_UPDATE_INTERVAL || '5', 10);
 wsService.startPeriodicUpdates(updateInterval);
 
+// Plain WebSocket endpoint for clients without Socket.IO, fed from the same views
+const plainSocket = new PlainSocketServer(httpServer, wsService);
+
 // Initialize scheduler
 const scheduler = new SchedulerService();
+scheduler.on('new_listings', (tokens) => wsService.broadcastNewListings(tokens));
+scheduler.on('anomalies', (events) => wsService.broadcastAnomalies(events));
+scheduler.on('alerts', (triggers) => wsService.broadcastAlerts(triggers));
 scheduler.start();
 
 // Graceful shutdown
 process.on('SIGTERM', () => {
   logger.info('SIGTERM received, shutting down gracefully...');
+  plainSocket.stop();
   wsService.stop();
   scheduler.stop();
   httpServer.close(() => {
@@ -67,6 +80,7 @@ process.on('SIGTERM', () => {
 
 process.on('SIGINT', () => {
   logger.info('SIGINT received, shutting down gracefully...');
+  plainSocket.stop();
   wsService.stop();
   scheduler.stop();
   httpServer.close(() => {
@@ -79,7 +93,9 @@ process.on('SIGINT', () => {
 httpServer.listen(port, () => {
   logger.info(`Server running on port ${port}`);
   logger.info(`WebSocket server available at ws://localhost:${port}`);
+  logger.info(`Plain WebSocket endpoint available at ws://localhost:${port}/ws`);
   logger.info(`API available at http://localhost:${port}/api`);
+  logger.info(`API docs available at http://localhost:${port}/api/docs`);
 });
 
 export default app;
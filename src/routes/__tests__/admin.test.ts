@@ -0,0 +1,84 @@
+import fs from 'fs';
+import request from 'supertest';
+import express from 'express';
+import adminRoutes from '../admin';
+import { watchlistService } from '../../services/watchlist';
+
+jest.mock('../../services/watchlist', () => {
+  const actual = jest.requireActual('../../services/watchlist');
+  const os = jest.requireActual('os');
+  const path = jest.requireActual('path');
+  return {
+    ...actual,
+    watchlistService: new actual.WatchlistService(
+      path.join(os.tmpdir(), `watchlist-admin-test-${process.pid}.json`)
+    ),
+  };
+});
+
+const BONK = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+
+const app = express();
+app.use(express.json());
+app.use('/api/admin', adminRoutes);
+
+describe('Admin Routes', () => {
+  beforeEach(async () => {
+    delete process.env.ADMIN_API_KEY;
+    await watchlistService.replace({ queries: ['BONK'], mints: [] });
+  });
+
+  afterAll(() => {
+    fs.rmSync(watchlistService.getPath(), { force: true });
+  });
+
+  it('should return the watchlist', async () => {
+    const response = await request(app).get('/api/admin/watchlist');
+    expect(response.status).toBe(200);
+    expect(response.body.watchlist).toEqual({ queries: ['BONK'], mints: [] });
+  });
+
+  it('should add and remove queries', async () => {
+    const added = await request(app)
+      .post('/api/admin/watchlist/queries')
+      .send({ queries: ['WIF', 'bonk'] });
+    expect(added.status).toBe(201);
+    expect(added.body.watchlist.queries).toEqual(['BONK', 'WIF']);
+
+    const removed = await request(app).delete('/api/admin/watchlist/queries/WIF');
+    expect(removed.status).toBe(200);
+    expect(removed.body.watchlist.queries).toEqual(['BONK']);
+
+    const missing = await request(app).delete('/api/admin/watchlist/queries/WIF');
+    expect(missing.status).toBe(404);
+  });
+
+  it('should add mints and reject invalid addresses', async () => {
+    const added = await request(app).post('/api/admin/watchlist/mints').send({ mints: BONK });
+    expect(added.status).toBe(201);
+    expect(added.body.watchlist.mints).toEqual([BONK]);
+
+    const invalid = await request(app)
+      .post('/api/admin/watchlist/mints')
+      .send({ mints: ['0x123'] });
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.error).toContain('not a valid Solana mint');
+  });
+
+  it('should reload the watchlist from disk', async () => {
+    fs.writeFileSync(watchlistService.getPath(), JSON.stringify({ queries: ['MEW'], mints: [] }));
+    const response = await request(app).post('/api/admin/watchlist/reload');
+    expect(response.status).toBe(200);
+    expect(response.body.watchlist.queries).toEqual(['MEW']);
+  });
+
+  it('should require the API key when one is configured', async () => {
+    process.env.ADMIN_API_KEY = 'secret';
+
+    const denied = await request(app).get('/api/admin/watchlist');
+    expect(denied.status).toBe(401);
+
+    const allowed = await request(app).get('/api/admin/watchlist').set('x-api-key', 'secret');
+    expect(allowed.status).toBe(200);
+  });
+});
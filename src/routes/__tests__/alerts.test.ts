@@ -0,0 +1,70 @@
+import request from 'supertest';
+import express from 'express';
+import alertRoutes from '../alerts';
+
+jest.mock('../../services/alerts', () => {
+  const actual = jest.requireActual('../../services/alerts');
+  return {
+    ...actual,
+    alertService: new actual.AlertService({ getRedisClient: () => null }),
+  };
+});
+
+const app = express();
+app.use(express.json());
+app.use('/api/alerts', alertRoutes);
+
+describe('Alert Routes', () => {
+  const rule = {
+    token_address: 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263',
+    metric: 'price_sol',
+    operator: 'crosses_above',
+    threshold: 0.00002,
+  };
+
+  it('should create, fetch, list and delete a rule', async () => {
+    const created = await request(app).post('/api/alerts').send(rule);
+    expect(created.status).toBe(201);
+    expect(created.body.rule).toMatchObject(rule);
+
+    const id = created.body.rule.id;
+    const fetched = await request(app).get(`/api/alerts/${id}`);
+    expect(fetched.status).toBe(200);
+    expect(fetched.body.rule.id).toBe(id);
+
+    const listed = await request(app).get('/api/alerts');
+    expect(listed.body.total).toBe(1);
+
+    const deleted = await request(app).delete(`/api/alerts/${id}`);
+    expect(deleted.status).toBe(204);
+
+    const missing = await request(app).get(`/api/alerts/${id}`);
+    expect(missing.status).toBe(404);
+  });
+
+  it('should return 400 for invalid rules', async () => {
+    const response = await request(app)
+      .post('/api/alerts')
+      .send({ ...rule, operator: 'sideways' });
+    expect(response.status).toBe(400);
+    expect(response.body.error).toContain('"operator"');
+  });
+
+  it('should require the API key when one is configured', async () => {
+    process.env.ADMIN_API_KEY = 'secret';
+    try {
+      const denied = await request(app).post('/api/alerts').send(rule);
+      expect(denied.status).toBe(401);
+
+      const allowed = await request(app).get('/api/alerts').set('x-api-key', 'secret');
+      expect(allowed.status).toBe(200);
+    } finally {
+      delete process.env.ADMIN_API_KEY;
+    }
+  });
+
+  it('should return 404 when deleting an unknown rule', async () => {
+    const response = await request(app).delete('/api/alerts/unknown');
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,43 @@
+import request from 'supertest';
+import express from 'express';
+import { apiRoutes } from '..';
+import { buildOpenApiDocument, listRoutes } from '../../services/openapi';
+
+const app = express();
+apiRoutes.forEach(({ path, router }) => app.use(path, router));
+
+describe('API docs', () => {
+  const document = buildOpenApiDocument();
+  const routes = listRoutes(apiRoutes);
+
+  it('should document every mounted route', () => {
+    const undocumented = routes.filter(
+      ({ method, path }) => !(document.paths[path] as Record<string, unknown> | undefined)?.[method]
+    );
+    expect(undocumented).toEqual([]);
+  });
+
+  it('should not document routes that do not exist', () => {
+    const documented = Object.entries(document.paths).flatMap(([path, item]) =>
+      Object.keys(item).map((method) => `${method} ${path}`)
+    );
+    const routed = routes.map(({ method, path }) => `${method} ${path}`);
+    expect(documented.filter((route) => !routed.includes(route))).toEqual([]);
+  });
+
+  it('should serve the OpenAPI document', async () => {
+    const response = await request(app).get('/api/openapi.json');
+    expect(response.status).toBe(200);
+    expect(response.body.openapi).toMatch(/^3\./);
+    expect(response.body.paths['/api/tokens'].get.parameters).toContainEqual(
+      expect.objectContaining({ name: 'sortBy', in: 'query' })
+    );
+  });
+
+  it('should serve the docs page', async () => {
+    const response = await request(app).get('/api/docs');
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toMatch(/text\/html/);
+    expect(response.text).toContain('/api/openapi.json');
+  });
+});
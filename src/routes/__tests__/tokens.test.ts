@@ -1,6 +1,9 @@
 import request from 'supertest';
 import express from 'express';
 import tokenRoutes from '../tokens';
+import { cacheService } from '../../services/cache';
+import { snapshotStore } from '../../services/history';
+import { Token } from '../../types/token';
 
 const app = express();
 app.use(express.json());
@@ -51,10 +54,257 @@ describe('Token Routes', () => {
     expect(response.status).toBe(400);
   });
 
+  it('should return 400 listing invalid query parameters', async () => {
+    const response = await request(app).get('/api/tokens?sortBy=hype&limit=abc&minVolume=');
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('Invalid query parameters');
+    expect(response.body.details.map((issue: { field: string }) => issue.field).sort()).toEqual([
+      'limit',
+      'sortBy',
+    ]);
+  });
+
   it('should return token by address', async () => {
     // This will likely return 404 if token doesn't exist, which is expected
     const response = await request(app).get('/api/tokens/0x123');
     expect([200, 404]).toContain(response.status);
   });
-});
 
+  describe('GET /:address/pairs', () => {
+    const token: Token = {
+      token_address: 'PairsTestMint111111111111111111111111111111',
+      token_name: 'Pairs Test',
+      token_ticker: 'PAIR',
+      price_sol: 1.25,
+      market_cap_sol: 1000,
+      volume_sol: 200,
+      liquidity_sol: 400,
+      transaction_count: 20,
+      protocol: 'raydium',
+      source: 'dexscreener',
+      pools: [
+        {
+          pair_address: 'SmallPool',
+          dex: 'orca',
+          quote_token: { address: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', symbol: 'USDC' },
+          price_sol: 2,
+          liquidity_sol: 100,
+          volume_sol: 100,
+          transaction_count: 10,
+          source: 'dexscreener',
+        },
+        {
+          pair_address: 'LargePool',
+          dex: 'raydium',
+          quote_token: { address: 'So11111111111111111111111111111111111111112', symbol: 'SOL' },
+          price_sol: 1,
+          liquidity_sol: 300,
+          volume_sol: 100,
+          transaction_count: 10,
+          source: 'geckoterminal',
+        },
+      ],
+    };
+
+    beforeEach(async () => {
+      await cacheService.set(cacheService.generateKey('tokens', 'aggregated'), [token], 60);
+    });
+
+    afterAll(async () => {
+      await cacheService.del(cacheService.generateKey('tokens', 'aggregated'));
+    });
+
+    it('should return every pool for the token sorted by liquidity', async () => {
+      const response = await request(app).get(
+        `/api/tokens/${token.token_address.toLowerCase()}/pairs`
+      );
+      expect(response.status).toBe(200);
+      expect(response.body.token_address).toBe(token.token_address);
+      expect(response.body.pools.map((p: { pair_address: string }) => p.pair_address)).toEqual([
+        'LargePool',
+        'SmallPool',
+      ]);
+      expect(response.body.metadata.total).toBe(2);
+    });
+
+    it('should return 404 for an unknown token', async () => {
+      const response = await request(app).get('/api/tokens/unknown/pairs');
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('?include=provenance', () => {
+    const token: Token = {
+      token_address: 'ProvenanceTestMint11111111111111111111111111',
+      token_name: 'Provenance Test',
+      token_ticker: 'PROV',
+      price_sol: 1,
+      market_cap_sol: 1000,
+      volume_sol: 200,
+      liquidity_sol: 400,
+      transaction_count: 20,
+      protocol: 'raydium',
+      source: 'dexscreener',
+      provenance: { price_sol: { source: 'dexscreener', fetched_at: 1000 } },
+    };
+
+    beforeEach(async () => {
+      await cacheService.set(cacheService.generateKey('tokens', 'aggregated'), [token], 60);
+    });
+
+    afterAll(async () => {
+      await cacheService.del(cacheService.generateKey('tokens', 'aggregated'));
+    });
+
+    it('should omit provenance by default', async () => {
+      const response = await request(app).get(`/api/tokens/${token.token_address}`);
+      expect(response.status).toBe(200);
+      expect(response.body.token.provenance).toBeUndefined();
+    });
+
+    it('should return provenance when requested', async () => {
+      const response = await request(app).get(
+        `/api/tokens/${token.token_address}?include=provenance`
+      );
+      expect(response.status).toBe(200);
+      expect(response.body.token.provenance.price_sol).toEqual({
+        source: 'dexscreener',
+        fetched_at: 1000,
+      });
+    });
+
+    it('should return provenance in the list when requested', async () => {
+      const response = await request(app).get('/api/tokens?include=provenance');
+      expect(response.status).toBe(200);
+      expect(response.body.tokens[0].provenance).toBeDefined();
+    });
+
+    it('should reject unknown include fields', async () => {
+      for (const path of ['/api/tokens', `/api/tokens/${token.token_address}`]) {
+        const response = await request(app).get(`${path}?include=provenance,bogus`);
+        expect(response.status).toBe(400);
+        expect(response.body.details).toEqual([expect.objectContaining({ field: 'include.1' })]);
+      }
+    });
+  });
+
+  describe('GET /:address/candles', () => {
+    const address = 'CandleTestMint111111111111111111111111111111';
+    const sample = (price: number): Token => ({
+      token_address: address,
+      token_name: 'Candle Test',
+      token_ticker: 'CNDL',
+      price_sol: price,
+      market_cap_sol: 1000,
+      volume_sol: 1440,
+      liquidity_sol: 400,
+      transaction_count: 20,
+      protocol: 'raydium',
+    });
+
+    beforeAll(async () => {
+      await snapshotStore.record([sample(1)], 60000);
+      await snapshotStore.record([sample(2)], 90000);
+      await snapshotStore.record([sample(1.5)], 120000);
+    });
+
+    it('should return OHLCV bars for the requested range', async () => {
+      const response = await request(app).get(
+        `/api/tokens/${address}/candles?interval=1m&from=0&to=180000`
+      );
+      expect(response.status).toBe(200);
+      expect(response.body.interval).toBe('1m');
+      expect(response.body.candles).toHaveLength(2);
+      expect(response.body.candles[0]).toMatchObject({
+        timestamp: 60000,
+        open: 1,
+        high: 2,
+        low: 1,
+        close: 2,
+      });
+      expect(response.body.metadata.samples).toBe(3);
+    });
+
+    it('should reject an unknown interval', async () => {
+      const response = await request(app).get(`/api/tokens/${address}/candles?interval=2h`);
+      expect(response.status).toBe(400);
+    });
+
+    it('should reject an unparseable range', async () => {
+      const response = await request(app).get(`/api/tokens/${address}/candles?from=yesterday`);
+      expect(response.status).toBe(400);
+      expect(response.body.details).toEqual([expect.objectContaining({ field: 'from' })]);
+    });
+
+    it('should reject a range that ends before it starts', async () => {
+      const response = await request(app).get(
+        `/api/tokens/${address}/candles?from=180000&to=60000`
+      );
+      expect(response.status).toBe(400);
+      expect(response.body.details).toEqual([expect.objectContaining({ field: 'from' })]);
+    });
+  });
+
+  describe('GET /movers', () => {
+    const mover = (address: string, change: number): Token => ({
+      token_address: address,
+      token_name: address,
+      token_ticker: address,
+      price_sol: 1,
+      market_cap_sol: 1000,
+      volume_sol: 100,
+      liquidity_sol: 100,
+      transaction_count: 10,
+      price_1hr_change: change,
+      protocol: 'raydium',
+    });
+
+    beforeEach(async () => {
+      await cacheService.set(
+        cacheService.generateKey('tokens', 'aggregated'),
+        [mover('MoverUp', 15), mover('MoverDown', -8), mover('MoverSmall', 3)],
+        60
+      );
+    });
+
+    afterAll(async () => {
+      await cacheService.del(cacheService.generateKey('tokens', 'aggregated'));
+    });
+
+    it('should rank gainers for the window', async () => {
+      const response = await request(app).get('/api/tokens/movers?window=1h&direction=up');
+      expect(response.status).toBe(200);
+      expect(
+        response.body.movers.map((m: { token: Token }) => m.token.token_address)
+      ).toEqual(['MoverUp', 'MoverSmall']);
+      expect(response.body.metadata).toMatchObject({ window: '1h', direction: 'up', total: 2 });
+    });
+
+    it('should rank losers with direction=down', async () => {
+      const response = await request(app).get('/api/tokens/movers?window=1h&direction=down');
+      expect(response.status).toBe(200);
+      expect(response.body.movers[0].token.token_address).toBe('MoverDown');
+    });
+
+    it('should reject an unknown window or direction', async () => {
+      expect((await request(app).get('/api/tokens/movers?window=7d')).status).toBe(400);
+      expect((await request(app).get('/api/tokens/movers?direction=sideways')).status).toBe(400);
+    });
+
+    it('should reject a limit outside 1 to 100', async () => {
+      for (const limit of ['0', '500', 'abc']) {
+        const response = await request(app).get(`/api/tokens/movers?limit=${limit}`);
+        expect(response.status).toBe(400);
+        expect(response.body.error).toBe('Invalid query parameters');
+        expect(response.body.details).toEqual([expect.objectContaining({ field: 'limit' })]);
+      }
+    });
+
+    it('should return at most limit movers', async () => {
+      const response = await request(app).get('/api/tokens/movers?limit=1');
+      expect(response.status).toBe(200);
+      expect(response.body.movers).toHaveLength(1);
+      expect(response.body.metadata).toMatchObject({ total: 2, returned: 1 });
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import { Router, Request, Response } from 'express';
+import { watchlistService, WatchlistValidationError } from '../services/watchlist';
+import { requireApiKey } from '../utils/auth';
+import logger from '../utils/logger';
+
+const router = Router();
+
+router.use(requireApiKey);
+
+function handleError(res: Response, error: unknown, action: string): Response {
+  if (error instanceof WatchlistValidationError) {
+    return res.status(400).json({ error: error.message });
+  }
+
+  logger.error(`Error ${action}:`, error);
+  return res.status(500).json({
+    error: 'Internal server error',
+    message: error instanceof Error ? error.message : 'Unknown error',
+  });
+}
+
+function toStringArray(value: unknown): string[] | null {
+  if (typeof value === 'string') {
+    return [value];
+  }
+  if (Array.isArray(value) && value.every((item) => typeof item === 'string')) {
+    return value;
+  }
+  return null;
+}
+
+router.get('/watchlist', (_req: Request, res: Response) => {
+  res.json({ watchlist: watchlistService.get() });
+});
+
+router.put('/watchlist', async (req: Request, res: Response) => {
+  try {
+    const watchlist = await watchlistService.replace(req.body);
+    return res.json({ watchlist });
+  } catch (error) {
+    return handleError(res, error, 'replacing watchlist');
+  }
+});
+
+router.post('/watchlist/reload', (_req: Request, res: Response) => {
+  try {
+    const watchlist = watchlistService.reload();
+    return res.json({ watchlist });
+  } catch (error) {
+    return handleError(res, error, 'reloading watchlist');
+  }
+});
+
+router.post('/watchlist/queries', async (req: Request, res: Response) => {
+  const queries = toStringArray(req.body?.queries);
+  if (!queries) {
+    return res.status(400).json({ error: 'Body field "queries" must be a string or string array' });
+  }
+
+  try {
+    const watchlist = await watchlistService.addQueries(queries);
+    return res.status(201).json({ watchlist });
+  } catch (error) {
+    return handleError(res, error, 'adding watchlist queries');
+  }
+});
+
+router.delete('/watchlist/queries/:query', async (req: Request, res: Response) => {
+  try {
+    const removed = await watchlistService.removeQuery(req.params.query);
+    if (!removed) {
+      return res.status(404).json({ error: 'Query not found in watchlist' });
+    }
+    return res.json({ watchlist: watchlistService.get() });
+  } catch (error) {
+    return handleError(res, error, 'removing watchlist query');
+  }
+});
+
+router.post('/watchlist/mints', async (req: Request, res: Response) => {
+  const mints = toStringArray(req.body?.mints);
+  if (!mints) {
+    return res.status(400).json({ error: 'Body field "mints" must be a string or string array' });
+  }
+
+  try {
+    const watchlist = await watchlistService.addMints(mints);
+    return res.status(201).json({ watchlist });
+  } catch (error) {
+    return handleError(res, error, 'adding watchlist mints');
+  }
+});
+
+router.delete('/watchlist/mints/:mint', async (req: Request, res: Response) => {
+  try {
+    const removed = await watchlistService.removeMint(req.params.mint);
+    if (!removed) {
+      return res.status(404).json({ error: 'Mint not found in watchlist' });
+    }
+    return res.json({ watchlist: watchlistService.get() });
+  } catch (error) {
+    return handleError(res, error, 'removing watchlist mint');
+  }
+});
+
+export default router;
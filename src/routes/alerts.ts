@@ -0,0 +1,65 @@
+import { Router, Request, Response } from 'express';
+import { alertService, AlertValidationError } from '../services/alerts';
+import { requireApiKey } from '../utils/auth';
+import logger from '../utils/logger';
+
+const router = Router();
+
+// Rules make the server call out to their webhooks, so they are managed with the admin key
+router.use(requireApiKey);
+
+function handleError(res: Response, error: unknown, action: string): Response {
+  if (error instanceof AlertValidationError) {
+    return res.status(400).json({ error: error.message });
+  }
+
+  logger.error(`Error ${action}:`, error);
+  return res.status(500).json({
+    error: 'Internal server error',
+    message: error instanceof Error ? error.message : 'Unknown error',
+  });
+}
+
+router.get('/', async (_req: Request, res: Response) => {
+  try {
+    const rules = await alertService.list();
+    return res.json({ rules, total: rules.length });
+  } catch (error) {
+    return handleError(res, error, 'listing alert rules');
+  }
+});
+
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const rule = await alertService.create(req.body);
+    return res.status(201).json({ rule });
+  } catch (error) {
+    return handleError(res, error, 'creating alert rule');
+  }
+});
+
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const rule = await alertService.get(req.params.id);
+    if (!rule) {
+      return res.status(404).json({ error: 'Alert rule not found' });
+    }
+    return res.json({ rule });
+  } catch (error) {
+    return handleError(res, error, 'fetching alert rule');
+  }
+});
+
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const removed = await alertService.remove(req.params.id);
+    if (!removed) {
+      return res.status(404).json({ error: 'Alert rule not found' });
+    }
+    return res.status(204).send();
+  } catch (error) {
+    return handleError(res, error, 'deleting alert rule');
+  }
+});
+
+export default router;
@@ -0,0 +1,36 @@
+import { Router, Request, Response } from 'express';
+import { buildOpenApiDocument } from '../services/openapi';
+
+const router = Router();
+
+// The document only depends on the code, so it is built once on first request
+let document: ReturnType<typeof buildOpenApiDocument> | undefined;
+
+const DOCS_PAGE = `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Meme Coin Aggregator API Docs</title>
+    <link rel="stylesheet" href="https://unpkg.com/swagger-ui-dist@5.17.14/swagger-ui.css">
+</head>
+<body>
+    <div id="swagger-ui"></div>
+    <script src="https://unpkg.com/swagger-ui-dist@5.17.14/swagger-ui-bundle.js"></script>
+    <script>
+        window.ui = SwaggerUIBundle({ url: '/api/openapi.json', dom_id: '#swagger-ui' });
+    </script>
+</body>
+</html>
+`;
+
+router.get('/openapi.json', (_req: Request, res: Response) => {
+  document = document ?? buildOpenApiDocument();
+  res.json(document);
+});
+
+router.get('/docs', (_req: Request, res: Response) => {
+  res.type('html').send(DOCS_PAGE);
+});
+
+export default router;
@@ -1,10 +1,13 @@
 import { Router, Request, Response } from 'express';
 import { cacheService } from '../services/cache';
+import { solPriceOracle } from '../services/oracle';
+import { snapshotStore } from '../services/history';
+import { WebSocketService } from '../services/websocket';
 import logger from '../utils/logger';
 
 const router = Router();
 
-router.get('/', async (_req: Request, res: Response) => {
+router.get('/', async (req: Request, res: Response) => {
   try {
     // Check cache (works with both Redis and in-memory fallback)
     const testKey = 'health:check';
@@ -27,6 +30,13 @@ router.get('/', async (_req: Request, res: Response) => {
         cache: cacheWorking ? 'working' : 'not working',
         api: 'running',
       },
+      sol_price: solPriceOracle.getStatus(),
+      history: {
+        backend: redisAvailable ? 'redis' : 'memory',
+        tracked_tokens: snapshotStore.getTrackedTokenCount(),
+      },
+      // Registered by the server entry point; absent when the router runs without WebSockets
+      websocket: (req.app.locals.websocket as WebSocketService | undefined)?.getMetrics(),
     });
   } catch (error) {
     logger.error('Health check error:', error);
@@ -0,0 +1,15 @@
+import tokenRoutes from './tokens';
+import healthRoutes from './health';
+import adminRoutes from './admin';
+import alertRoutes from './alerts';
+import docsRoutes from './docs';
+import { RouteMount } from '../services/openapi';
+
+// Every REST router and where it is mounted; the OpenAPI tests check each route against the spec
+export const apiRoutes: RouteMount[] = [
+  { path: '/api/tokens', router: tokenRoutes },
+  { path: '/api/health', router: healthRoutes },
+  { path: '/api/admin', router: adminRoutes },
+  { path: '/api/alerts', router: alertRoutes },
+  { path: '/api', router: docsRoutes },
+];
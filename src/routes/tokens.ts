@@ -1,34 +1,103 @@
+import crypto from 'crypto';
 import { Router, Request, Response } from 'express';
+import { z } from 'zod';
 import { TokenAggregator } from '../services/aggregator';
-import { FilterOptions, SortOptions, PaginationOptions } from '../types/token';
+import { sortPoolsByLiquidity } from '../services/pools';
+import { stripProvenance } from '../services/consensus';
+import { snapshotStore } from '../services/history';
+import { buildCandles, CandleInterval, CANDLE_INTERVALS } from '../services/candles';
+import { MoversService, MoverWindow, MOVER_WINDOWS } from '../services/movers';
+import { WebSocketService, UpdateStream } from '../services/websocket';
+import { Token } from '../types/token';
+import {
+  IncludeOptions,
+  includeQuerySchema,
+  paginationOptionsSchema,
+  tokenListQuerySchema,
+  validationIssues,
+} from '../types/options';
 import logger from '../utils/logger';
 
+// Seconds between comment lines that keep idle event streams open through proxies
+const SSE_HEARTBEAT_INTERVAL = parseInt(process.env.SSE_HEARTBEAT_INTERVAL || '15', 10);
+
 const router = Router();
 const aggregator = new TokenAggregator();
+const movers = new MoversService();
+
+// Optional token fields are only returned when requested, e.g. ?include=provenance
+function withIncludes(include: IncludeOptions | undefined, tokens: Token[]): Token[] {
+  return include?.includes('provenance') ? tokens : stripProvenance(tokens);
+}
+
+// Accepts unix milliseconds or an ISO 8601 date
+const timestampSchema = z.preprocess(
+  (value) =>
+    typeof value === 'string' ? (/^\d+$/.test(value) ? Number(value) : Date.parse(value)) : value,
+  z.number({ invalid_type_error: 'Expected unix ms or an ISO date' })
+);
+
+// Regroups the flat query parameters into the options the aggregator takes
+const listQuerySchema = tokenListQuerySchema.transform(
+  ({ sortBy, order, limit, cursor, include, ...filterOptions }) => ({
+    filterOptions,
+    sortOptions: { field: sortBy, order, timePeriod: filterOptions.timePeriod },
+    paginationOptions: { limit: limit ?? 20, cursor },
+    include,
+  })
+);
+
+const moversQuerySchema = z.object({
+  window: z.enum(Object.keys(MOVER_WINDOWS) as [MoverWindow, ...MoverWindow[]]).default('1h'),
+  direction: z.enum(['up', 'down']).default('up'),
+  limit: paginationOptionsSchema.shape.limit.default(20),
+  include: includeQuerySchema,
+});
+
+// Resolves the range, which defaults to the last 24 hours
+const candlesQuerySchema = z
+  .object({
+    interval: z
+      .enum(Object.keys(CANDLE_INTERVALS) as [CandleInterval, ...CandleInterval[]])
+      .default('5m'),
+    from: timestampSchema.optional(),
+    to: timestampSchema.optional(),
+  })
+  .transform(({ interval, from, to }) => {
+    const end = to ?? Date.now();
+    return { interval, start: from ?? end - 24 * 60 * 60 * 1000, end };
+  })
+  .refine(({ start, end }) => start <= end, {
+    message: 'Must not be after "to"',
+    path: ['from'],
+  });
+
+// An empty parameter, e.g. ?minVolume=, means it isn't set
+function withoutEmpty(req: Request) {
+  return Object.fromEntries(Object.entries(req.query).filter(([, value]) => value !== ''));
+}
+
+function parseListQuery(req: Request) {
+  return listQuerySchema.safeParse(withoutEmpty(req));
+}
+
+// For routes that take ?include but not the list parameters
+function parseIncludeQuery(req: Request) {
+  return z.object({ include: includeQuerySchema }).safeParse(req.query);
+}
+
+function invalidQuery(error: z.ZodError) {
+  return { error: 'Invalid query parameters', details: validationIssues(error) };
+}
 
 router.get('/', async (req: Request, res: Response) => {
   try {
     const startTime = Date.now();
-
-    // Parse query parameters
-    const filterOptions: FilterOptions = {
-      timePeriod: req.query.timePeriod as '1h' | '24h' | '7d' | undefined,
-      minVolume: req.query.minVolume ? parseFloat(req.query.minVolume as string) : undefined,
-      minLiquidity: req.query.minLiquidity
-        ? parseFloat(req.query.minLiquidity as string)
-        : undefined,
-      protocol: req.query.protocol as string | undefined,
-    };
-
-    const sortOptions: SortOptions = {
-      field: (req.query.sortBy as any) || 'volume',
-      order: (req.query.order as 'asc' | 'desc') || 'desc',
-    };
-
-    const paginationOptions: PaginationOptions = {
-      limit: req.query.limit ? parseInt(req.query.limit as string, 10) : 20,
-      cursor: req.query.cursor as string | undefined,
-    };
+    const query = parseListQuery(req);
+    if (!query.success) {
+      return res.status(400).json(invalidQuery(query.error));
+    }
+    const { filterOptions, sortOptions, paginationOptions, include } = query.data;
 
     // Aggregate tokens
     let tokens = await aggregator.aggregateTokens();
@@ -48,8 +117,8 @@ router.get('/', async (req: Request, res: Response) => {
     const responseTime = Date.now() - startTime;
     logger.info(`GET /tokens - ${paginatedTokens.length} tokens in ${responseTime}ms`);
 
-    res.json({
-      tokens: paginatedTokens,
+    return res.json({
+      tokens: withIncludes(include, paginatedTokens),
       metadata: {
         total: tokens.length,
         returned: paginatedTokens.length,
@@ -59,7 +128,7 @@ router.get('/', async (req: Request, res: Response) => {
     });
   } catch (error) {
     logger.error('Error fetching tokens:', error);
-    res.status(500).json({
+    return res.status(500).json({
       error: 'Internal server error',
       message: error instanceof Error ? error.message : 'Unknown error',
     });
@@ -72,6 +141,10 @@ router.get('/search', async (req: Request, res: Response) => {
     if (!query) {
       return res.status(400).json({ error: 'Query parameter "q" is required' });
     }
+    const includeQuery = parseIncludeQuery(req);
+    if (!includeQuery.success) {
+      return res.status(400).json(invalidQuery(includeQuery.error));
+    }
 
     const tokens = await aggregator.aggregateTokens();
     const filtered = tokens.filter(
@@ -82,7 +155,7 @@ router.get('/search', async (req: Request, res: Response) => {
     );
 
     return res.json({
-      tokens: filtered.slice(0, 20),
+      tokens: withIncludes(includeQuery.data.include, filtered.slice(0, 20)),
       metadata: {
         total: filtered.length,
         query,
@@ -97,9 +170,171 @@ router.get('/search', async (req: Request, res: Response) => {
   }
 });
 
+router.get('/movers', async (req: Request, res: Response) => {
+  try {
+    const query = moversQuerySchema.safeParse(withoutEmpty(req));
+    if (!query.success) {
+      return res.status(400).json(invalidQuery(query.error));
+    }
+    const { window, direction, limit, include } = query.data;
+
+    const tokens = await aggregator.aggregateTokens();
+    const ranked = await movers.rank(tokens, window, direction);
+
+    return res.json({
+      movers: ranked.slice(0, limit).map((mover) => ({
+        ...mover,
+        token: withIncludes(include, [mover.token])[0],
+      })),
+      metadata: {
+        window,
+        direction,
+        total: ranked.length,
+        returned: Math.min(ranked.length, limit),
+      },
+    });
+  } catch (error) {
+    logger.error('Error ranking token movers:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * Server-Sent Events feed of the same view GET / returns, for clients that
+ * cannot use Socket.IO. Events and payloads match the WebSocket feed, and
+ * 'tokens:update' event ids let EventSource resume via Last-Event-ID.
+ */
+router.get('/stream', async (req: Request, res: Response) => {
+  const websocket = req.app.locals.websocket as WebSocketService | undefined;
+  if (!websocket) {
+    res.status(503).json({ error: 'Streaming is not available' });
+    return;
+  }
+
+  const query = parseListQuery(req);
+  if (!query.success) {
+    res.status(400).json(invalidQuery(query.error));
+    return;
+  }
+  const { filterOptions, sortOptions, paginationOptions, include } = query.data;
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no', // Stop nginx from buffering the stream
+  });
+
+  const stream: UpdateStream = {
+    id: `sse:${crypto.randomUUID()}`,
+    send: (event, data, eventId) => {
+      const id = eventId ? `id: ${eventId}\n` : '';
+      res.write(`${id}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+  };
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), SSE_HEARTBEAT_INTERVAL * 1000);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    websocket.removeStream(stream.id);
+    logger.info(`Event stream closed: ${stream.id}`);
+  });
+
+  logger.info(`Event stream opened: ${stream.id}`);
+  await websocket.addStream(
+    stream,
+    {
+      filter: filterOptions,
+      sort: sortOptions,
+      pagination: paginationOptions,
+      include,
+    },
+    (req.headers['last-event-id'] as string | undefined) || (req.query.lastEventId as string)
+  );
+});
+
+router.get('/:address/candles', async (req: Request, res: Response) => {
+  try {
+    const address = req.params.address;
+    const query = candlesQuerySchema.safeParse(withoutEmpty(req));
+    if (!query.success) {
+      return res.status(400).json(invalidQuery(query.error));
+    }
+    const { interval, start, end } = query.data;
+
+    const samples = await snapshotStore.getSamples(address, start, end);
+    if (samples.length === 0) {
+      const tokens = await aggregator.aggregateTokens();
+      const known = tokens.some((t) => t.token_address.toLowerCase() === address.toLowerCase());
+      if (!known) {
+        return res.status(404).json({ error: 'Token not found' });
+      }
+    }
+
+    const candles = buildCandles(samples, interval);
+    return res.json({
+      token_address: address,
+      interval,
+      candles,
+      metadata: {
+        from: start,
+        to: end,
+        total: candles.length,
+        samples: samples.length,
+      },
+    });
+  } catch (error) {
+    logger.error('Error building token candles:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+router.get('/:address/pairs', async (req: Request, res: Response) => {
+  try {
+    const address = req.params.address;
+    const tokens = await aggregator.aggregateTokens();
+    const token = tokens.find(
+      (t) => t.token_address.toLowerCase() === address.toLowerCase()
+    );
+
+    if (!token) {
+      return res.status(404).json({ error: 'Token not found' });
+    }
+
+    const pools = sortPoolsByLiquidity(token.pools || []);
+    return res.json({
+      token_address: token.token_address,
+      token_ticker: token.token_ticker,
+      pools,
+      metadata: {
+        total: pools.length,
+        liquidity_sol: token.liquidity_sol,
+        volume_sol: token.volume_sol,
+      },
+    });
+  } catch (error) {
+    logger.error('Error fetching token pairs:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
 router.get('/:address', async (req: Request, res: Response) => {
   try {
     const address = req.params.address;
+    const includeQuery = parseIncludeQuery(req);
+    if (!includeQuery.success) {
+      return res.status(400).json(invalidQuery(includeQuery.error));
+    }
+
     const tokens = await aggregator.aggregateTokens();
     const token = tokens.find(
       (t) => t.token_address.toLowerCase() === address.toLowerCase()
@@ -109,7 +344,8 @@ router.get('/:address', async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'Token not found' });
     }
 
-    return res.json({ token });
+    const [result] = withIncludes(includeQuery.data.include, [token]);
+    return res.json({ token: result });
   } catch (error) {
     logger.error('Error fetching token:', error);
     return res.status(500).json({
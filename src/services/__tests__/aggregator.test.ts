@@ -1,5 +1,9 @@
 import { TokenAggregator } from '../aggregator';
-import { Token, FilterOptions, SortOptions } from '../../types/token';
+import { SourceRegistry } from '../dex/registry';
+import { TokenSource } from '../dex/source';
+import { cacheService } from '../cache';
+import { Token } from '../../types/token';
+import { FilterOptions, SortOptions } from '../../types/options';
 
 describe('TokenAggregator', () => {
   let aggregator: TokenAggregator;
@@ -61,6 +65,20 @@ describe('TokenAggregator', () => {
       expect(filtered.every((t) => t.price_1hr_change !== undefined)).toBe(true);
     });
 
+    it('should filter by the 5m and 6h windows', () => {
+      const tokens = [
+        { ...mockTokens[0], price_5m_change: 1 },
+        { ...mockTokens[1], price_6hr_change: -2 },
+        mockTokens[2],
+      ];
+      expect(
+        aggregator.filterTokens(tokens, { timePeriod: '5m' }).map((t) => t.token_ticker)
+      ).toEqual(['TKA']);
+      expect(
+        aggregator.filterTokens(tokens, { timePeriod: '6h' }).map((t) => t.token_ticker)
+      ).toEqual(['TKB']);
+    });
+
     it('should filter by minimum volume', () => {
       const options: FilterOptions = { minVolume: 1000 };
       const filtered = aggregator.filterTokens(mockTokens, options);
@@ -75,6 +93,44 @@ describe('TokenAggregator', () => {
       expect(filtered.every((t) => t.liquidity_sol >= 300)).toBe(true);
     });
 
+    it('should filter by token age', () => {
+      const tokens = [
+        { ...mockTokens[0], age_seconds: 60 },
+        { ...mockTokens[1], age_seconds: 7200 },
+        mockTokens[2],
+      ];
+      expect(aggregator.filterTokens(tokens, { maxAge: 600 }).map((t) => t.token_ticker)).toEqual([
+        'TKA',
+      ]);
+      expect(aggregator.filterTokens(tokens, { minAge: 600 }).map((t) => t.token_ticker)).toEqual([
+        'TKB',
+      ]);
+    });
+
+    it('should filter by maximum risk score', () => {
+      const tokens = [
+        { ...mockTokens[0], risk_score: 10 },
+        { ...mockTokens[1], risk_score: 70 },
+        mockTokens[2],
+      ];
+      const filtered = aggregator.filterTokens(tokens, { maxRisk: 50 });
+      expect(filtered.map((t) => t.token_ticker)).toEqual(['TKA']);
+    });
+
+    it('should filter by anomaly flags', () => {
+      const tokens: Token[] = [
+        { ...mockTokens[0], anomaly_flags: [] },
+        { ...mockTokens[1], anomaly_flags: ['symmetric_trades'] },
+        mockTokens[2],
+      ];
+      expect(
+        aggregator.filterTokens(tokens, { excludeAnomalies: true }).map((t) => t.token_ticker)
+      ).toEqual(['TKA', 'TKC']);
+      expect(
+        aggregator.filterTokens(tokens, { anomaly: 'symmetric_trades' }).map((t) => t.token_ticker)
+      ).toEqual(['TKB']);
+    });
+
     it('should filter by protocol', () => {
       const options: FilterOptions = { protocol: 'Raydium' };
       const filtered = aggregator.filterTokens(mockTokens, options);
@@ -114,6 +170,39 @@ describe('TokenAggregator', () => {
       expect(sorted[0].token_ticker).toBe('TKC');
     });
 
+    it('should sort by the price change of the requested period', () => {
+      const tokens = [
+        { ...mockTokens[0], price_5m_change: 9 },
+        { ...mockTokens[1], price_5m_change: 4 },
+        mockTokens[2],
+      ];
+      const options: SortOptions = { field: 'price_change', order: 'desc', timePeriod: '5m' };
+      const sorted = aggregator.sortTokens(tokens, options);
+      expect(sorted.map((t) => t.token_ticker)).toEqual(['TKA', 'TKB', 'TKC']);
+    });
+
+    it('should sort by the volume of the requested period', () => {
+      const tokens = [
+        { ...mockTokens[0], volume_1hr_sol: 300 },
+        { ...mockTokens[1], volume_1hr_sol: 50 },
+        { ...mockTokens[2], volume_1hr_sol: 100 },
+      ];
+      const options: SortOptions = { field: 'volume', order: 'desc', timePeriod: '1h' };
+      const sorted = aggregator.sortTokens(tokens, options);
+      expect(sorted.map((t) => t.token_ticker)).toEqual(['TKA', 'TKC', 'TKB']);
+    });
+
+    it('should sort by buy/sell ratio', () => {
+      const tokens = [
+        { ...mockTokens[0], buy_sell_ratio: 0.5 },
+        { ...mockTokens[1], buy_sell_ratio: 3 },
+        mockTokens[2],
+      ];
+      const options: SortOptions = { field: 'buy_sell_ratio', order: 'desc' };
+      const sorted = aggregator.sortTokens(tokens, options);
+      expect(sorted.map((t) => t.token_ticker)).toEqual(['TKB', 'TKA', 'TKC']);
+    });
+
     it('should sort by market cap descending', () => {
       const options: SortOptions = { field: 'market_cap', order: 'desc' };
       const sorted = aggregator.sortTokens(mockTokens, options);
@@ -147,5 +236,208 @@ describe('TokenAggregator', () => {
       expect(result.next_cursor).toBe('2');
     });
   });
-});
 
+  describe('aggregateTokens', () => {
+    const cacheKey = cacheService.generateKey('tokens', 'aggregated');
+
+    function createSource(name: string, tokens: Token[]): TokenSource {
+      return {
+        name,
+        capabilities: { search: false, tokenLookup: false, marketData: true },
+        getPopularTokens: jest.fn().mockResolvedValue(tokens),
+      };
+    }
+
+    beforeEach(async () => {
+      await cacheService.del(cacheKey);
+    });
+
+    afterAll(async () => {
+      await cacheService.del(cacheKey);
+    });
+
+    it('should fetch from every enabled source in the registry', async () => {
+      const registry = new SourceRegistry({ weights: {} });
+      const alpha = createSource('alpha', [mockTokens[0]]);
+      const beta = createSource('beta', [mockTokens[1]]);
+      const disabled = createSource('disabled', [mockTokens[2]]);
+      registry.register(alpha);
+      registry.register(beta);
+      registry.register(disabled, { enabled: false });
+
+      const tokens = await new TokenAggregator(registry).aggregateTokens();
+
+      expect(tokens.map((t) => t.token_ticker).sort()).toEqual(['TKA', 'TKB']);
+      expect(disabled.getPopularTokens).not.toHaveBeenCalled();
+    });
+
+    it('should keep results from healthy sources when one fails', async () => {
+      const registry = new SourceRegistry({ weights: {} });
+      registry.register(createSource('alpha', [mockTokens[0]]));
+      registry.register({
+        ...createSource('broken', []),
+        getPopularTokens: jest.fn().mockRejectedValue(new Error('down')),
+      });
+
+      const tokens = await new TokenAggregator(registry).aggregateTokens();
+      expect(tokens).toHaveLength(1);
+    });
+
+    it('should let source weight decide the primary record when merging', async () => {
+      const registry = new SourceRegistry({ weights: { alpha: 0.1, beta: 5 } });
+      registry.register(
+        createSource('alpha', [{ ...mockTokens[0], protocol: 'Alpha', source: 'alpha' }])
+      );
+      registry.register(
+        createSource('beta', [{ ...mockTokens[0], protocol: 'Beta', source: 'beta' }])
+      );
+
+      const [token] = await new TokenAggregator(registry).aggregateTokens();
+      expect(token.protocol).toBe('Beta');
+      expect(token.source).toBe('beta,alpha');
+    });
+
+    it('should derive token age from created_at on every call', async () => {
+      const registry = new SourceRegistry({ weights: {} });
+      const createdAt = Date.now() - 90 * 1000;
+      registry.register(createSource('alpha', [{ ...mockTokens[0], created_at: createdAt }]));
+
+      const aggregator = new TokenAggregator(registry);
+      const [first] = await aggregator.aggregateTokens();
+      expect(first.age_seconds).toBeGreaterThanOrEqual(90);
+
+      const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(createdAt + 300 * 1000);
+      const [cached] = await aggregator.aggregateTokens();
+      nowSpy.mockRestore();
+      expect(cached.age_seconds).toBe(300);
+    });
+
+    it('should keep every pool of a token and aggregate metrics across them', async () => {
+      const poolFor = (pairAddress: string, source: string, price: number, liquidity: number) => ({
+        pair_address: pairAddress,
+        dex: 'raydium',
+        quote_token: { address: 'So11111111111111111111111111111111111111112', symbol: 'SOL' },
+        price_sol: price,
+        liquidity_sol: liquidity,
+        volume_sol: 100,
+        transaction_count: 10,
+        source,
+        last_updated: 1000,
+      });
+      const registry = new SourceRegistry({ weights: {} });
+      registry.register(
+        createSource('alpha', [
+          { ...mockTokens[0], source: 'alpha', pools: [poolFor('PoolA', 'alpha', 1, 300)] },
+          { ...mockTokens[0], source: 'alpha', pools: [poolFor('PoolB', 'alpha', 1.1, 100)] },
+        ])
+      );
+      registry.register(
+        // Same pool as PoolA reported by another source must not be double counted
+        createSource('beta', [
+          { ...mockTokens[0], source: 'beta', pools: [poolFor('PoolA', 'beta', 1, 300)] },
+        ])
+      );
+
+      const [token] = await new TokenAggregator(registry).aggregateTokens();
+      expect(token.pools).toHaveLength(2);
+      expect(token.liquidity_sol).toBe(400);
+      expect(token.volume_sol).toBe(200);
+      expect(token.price_sol).toBeCloseTo(1.025, 10);
+      expect(token.source).toBe('alpha,beta');
+    });
+
+    it('should look up tokens outside the aggregate by address', async () => {
+      const lookupKey = cacheService.generateKey('tokens', 'address', '0x789');
+      const unknownKey = cacheService.generateKey('tokens', 'address', '0xabc');
+      await cacheService.del(lookupKey);
+      await cacheService.del(unknownKey);
+
+      const registry = new SourceRegistry({ weights: {} });
+      const lookup = {
+        ...createSource('alpha', [mockTokens[0]]),
+        capabilities: { search: false, tokenLookup: true, marketData: true },
+        getTokensData: jest
+          .fn()
+          .mockImplementation(async (addresses: string[]) =>
+            addresses.includes('0x789') ? [{ ...mockTokens[2], source: 'alpha' }] : []
+          ),
+      };
+      // Looks up one address per request, so it isn't asked
+      const single = {
+        ...createSource('beta', []),
+        capabilities: { search: false, tokenLookup: true, marketData: true },
+        getTokenData: jest.fn().mockResolvedValue([]),
+      };
+      registry.register(lookup);
+      registry.register(single);
+      const set = jest.spyOn(cacheService, 'set');
+
+      const aggregator = new TokenAggregator(registry);
+      const tokens = await aggregator.getTokensByAddress(['0X123', '0x789', '0xabc']);
+
+      expect(tokens.map((t) => t.token_ticker)).toEqual(['TKA', 'TKC']);
+      expect(tokens[1].risk_score).toBeDefined();
+      expect(lookup.getTokensData).toHaveBeenCalledTimes(1);
+      expect(lookup.getTokensData).toHaveBeenCalledWith(['0x789', '0xabc']);
+      expect(single.getTokenData).not.toHaveBeenCalled();
+
+      // Lookups, including misses, are cached, and misses for longer
+      expect(set).toHaveBeenCalledWith(unknownKey, { token: null }, 300);
+      await aggregator.getTokensByAddress(['0x789', '0xabc']);
+      expect(lookup.getTokensData).toHaveBeenCalledTimes(1);
+      set.mockRestore();
+
+      await cacheService.del(lookupKey);
+      await cacheService.del(unknownKey);
+    });
+
+    it('should look up base58 mints with their original casing', async () => {
+      const mint = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+      const lookupKey = cacheService.generateKey('tokens', 'address', mint.toLowerCase());
+      await cacheService.del(lookupKey);
+
+      const registry = new SourceRegistry({ weights: {} });
+      const lookup = {
+        ...createSource('alpha', [mockTokens[0]]),
+        capabilities: { search: false, tokenLookup: true, marketData: true },
+        // Like DexScreener and GeckoTerminal, only the exact mint is known upstream
+        getTokensData: jest
+          .fn()
+          .mockImplementation(async (addresses: string[]) =>
+            addresses.includes(mint)
+              ? [{ ...mockTokens[2], token_address: mint, source: 'alpha' }]
+              : []
+          ),
+      };
+      registry.register(lookup);
+
+      const tokens = await new TokenAggregator(registry).getTokensByAddress([mint]);
+      expect(lookup.getTokensData).toHaveBeenCalledWith([mint]);
+      expect(tokens.map((t) => t.token_address)).toEqual([mint]);
+
+      await cacheService.del(lookupKey);
+    });
+
+    it('should share one lookup between concurrent callers', async () => {
+      const lookupKey = cacheService.generateKey('tokens', 'address', '0xdef');
+      await cacheService.del(lookupKey);
+
+      const registry = new SourceRegistry({ weights: {} });
+      const lookup = {
+        ...createSource('alpha', [mockTokens[0]]),
+        capabilities: { search: false, tokenLookup: true, marketData: true },
+        getTokensData: jest.fn().mockResolvedValue([]),
+      };
+      registry.register(lookup);
+
+      const aggregator = new TokenAggregator(registry);
+      await Promise.all([
+        aggregator.getTokensByAddress(['0xdef']),
+        aggregator.getTokensByAddress(['0xdef']),
+      ]);
+      expect(lookup.getTokensData).toHaveBeenCalledTimes(1);
+
+      await cacheService.del(lookupKey);
+    });
+  });
+});
@@ -0,0 +1,223 @@
+import dns from 'dns';
+import { AlertService, AlertValidationError, isPrivateAddress, signPayload } from '../alerts';
+import { CacheService } from '../cache';
+import { tokenFactory } from './helpers/fixtures';
+
+jest.mock('../../utils/retry', () => ({
+  ...jest.requireActual('../../utils/retry'),
+  sleep: jest.fn().mockResolvedValue(undefined),
+}));
+
+const ADDRESS = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+
+const token = tokenFactory({
+  token_address: ADDRESS,
+  token_name: 'Bonk',
+  token_ticker: 'BONK',
+  market_cap_sol: 10000,
+  volume_sol: 500,
+  liquidity_sol: 1000,
+  transaction_count: 250,
+});
+
+describe('AlertService', () => {
+  let cache: CacheService;
+  let alerts: AlertService;
+
+  beforeEach(() => {
+    cache = new CacheService();
+    jest.spyOn(cache, 'getRedisClient').mockReturnValue(null);
+    alerts = new AlertService(cache, 'secret');
+    jest
+      .spyOn(dns.promises, 'lookup')
+      .mockResolvedValue([{ address: '93.184.216.34', family: 4 }] as never);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await cache.close();
+  });
+
+  it('should create, list and remove rules', async () => {
+    const rule = await alerts.create({
+      token_address: ADDRESS,
+      metric: 'price_sol',
+      operator: 'above',
+      threshold: 2,
+    });
+
+    expect(rule.id).toBeDefined();
+    expect(await alerts.list()).toEqual([rule]);
+    expect(await alerts.get(rule.id)).toEqual(rule);
+    expect(await alerts.remove(rule.id)).toBe(true);
+    expect(await alerts.remove(rule.id)).toBe(false);
+    expect(await alerts.list()).toEqual([]);
+  });
+
+  it('should reject invalid rules', async () => {
+    const valid = { token_address: ADDRESS, metric: 'price_sol', operator: 'above', threshold: 1 };
+
+    await expect(alerts.create({ ...valid, metric: 'holders' })).rejects.toThrow(
+      AlertValidationError
+    );
+    await expect(alerts.create({ ...valid, threshold: '1' })).rejects.toThrow(AlertValidationError);
+    await expect(alerts.create({ ...valid, window: '1h' })).rejects.toThrow(AlertValidationError);
+    for (const window of ['2h', 'constructor', 'toString']) {
+      await expect(alerts.create({ ...valid, metric: 'price_change', window })).rejects.toThrow(
+        AlertValidationError
+      );
+    }
+    await expect(alerts.create({ ...valid, webhook_url: 'ftp://example.com' })).rejects.toThrow(
+      AlertValidationError
+    );
+    await expect(alerts.create({ ...valid, operator: 'drops_by', threshold: -30 })).rejects.toThrow(
+      AlertValidationError
+    );
+  });
+
+  it('should fire once when a condition starts to hold and re-arm when it clears', async () => {
+    await alerts.create({
+      token_address: ADDRESS,
+      metric: 'price_change',
+      window: '1h',
+      operator: 'above',
+      threshold: 50,
+    });
+
+    expect(await alerts.evaluate([token({ price_1hr_change: 60 })])).toHaveLength(1);
+    expect(await alerts.evaluate([token({ price_1hr_change: 70 })])).toHaveLength(0);
+    expect(await alerts.evaluate([token({ price_1hr_change: 10 })])).toHaveLength(0);
+
+    const [trigger] = await alerts.evaluate([token({ price_1hr_change: 55 })]);
+    expect(trigger.value).toBe(55);
+  });
+
+  it('should only report a crossing after seeing the other side', async () => {
+    await alerts.create({
+      token_address: ADDRESS.toLowerCase(),
+      metric: 'price_sol',
+      operator: 'crosses_above',
+      threshold: 2,
+    });
+
+    // Already above on the first observation: not a crossing
+    expect(await alerts.evaluate([token({ price_sol: 3 })])).toHaveLength(0);
+    expect(await alerts.evaluate([token({ price_sol: 1 })])).toHaveLength(0);
+    expect(await alerts.evaluate([token({ price_sol: 2.5 })])).toHaveLength(1);
+  });
+
+  it('should measure percentage drops from the first value seen', async () => {
+    const rule = await alerts.create({
+      token_address: ADDRESS,
+      metric: 'liquidity_sol',
+      operator: 'drops_by',
+      threshold: 30,
+    });
+
+    expect(await alerts.evaluate([token({ liquidity_sol: 1000 })])).toHaveLength(0);
+    expect((await alerts.get(rule.id))?.baseline).toBe(1000);
+    expect(await alerts.evaluate([token({ liquidity_sol: 800 })])).toHaveLength(0);
+    expect(await alerts.evaluate([token({ liquidity_sol: 650 })])).toHaveLength(1);
+  });
+
+  it('should skip rules for tokens missing from the refresh', async () => {
+    await alerts.create({
+      token_address: 'Other',
+      metric: 'price_sol',
+      operator: 'above',
+      threshold: 0,
+    });
+    expect(await alerts.evaluate([token()])).toEqual([]);
+  });
+
+  it('should reject webhooks pointing at local or private addresses', async () => {
+    const valid = { token_address: ADDRESS, metric: 'price_sol', operator: 'above', threshold: 1 };
+
+    for (const webhook_url of [
+      'http://localhost:6379/',
+      'http://169.254.169.254/latest/meta-data/',
+      'http://10.0.0.5/hook',
+      'http://[::1]/hook',
+      'http://[::ffff:127.0.0.1]/hook',
+    ]) {
+      await expect(alerts.create({ ...valid, webhook_url })).rejects.toThrow('private or local');
+    }
+    expect(isPrivateAddress('192.168.1.1')).toBe(true);
+    expect(isPrivateAddress('fe80::1')).toBe(true);
+    expect(isPrivateAddress('93.184.216.34')).toBe(false);
+  });
+
+  it('should only accept webhooks when they can be signed', async () => {
+    const unsigned = new AlertService(cache, '');
+    await expect(
+      unsigned.create({
+        token_address: ADDRESS,
+        metric: 'price_sol',
+        operator: 'above',
+        threshold: 1,
+        webhook_url: 'https://hooks.example.com/alerts',
+      })
+    ).rejects.toThrow('ALERT_WEBHOOK_SECRET');
+  });
+
+  it('should post signed webhooks and retry failed deliveries', async () => {
+    await alerts.create({
+      token_address: ADDRESS,
+      metric: 'price_sol',
+      operator: 'above',
+      threshold: 0.5,
+      webhook_url: 'https://hooks.example.com/alerts',
+    });
+    const triggers = await alerts.evaluate([token()]);
+
+    const networkError = Object.assign(new Error('socket hang up'), { isAxiosError: true });
+    const post = jest
+      .spyOn(alerts['http'], 'post')
+      .mockRejectedValueOnce(networkError)
+      .mockResolvedValueOnce({ status: 200 });
+
+    await alerts.deliverWebhooks(triggers);
+
+    expect(post).toHaveBeenCalledTimes(2);
+    const [url, body, config] = post.mock.calls[1];
+    const headers = config!.headers as Record<string, string>;
+    expect(url).toBe('https://hooks.example.com/alerts');
+    expect(JSON.parse(body as string).value).toBe(1);
+    expect(headers['X-Alert-Signature']).toBe(
+      `sha256=${signPayload('secret', headers['X-Alert-Timestamp'], body as string)}`
+    );
+  });
+
+  it('should log instead of throwing when a webhook keeps failing', async () => {
+    await alerts.create({
+      token_address: ADDRESS,
+      metric: 'price_sol',
+      operator: 'above',
+      threshold: 0.5,
+      webhook_url: 'https://hooks.example.com/alerts',
+    });
+    const triggers = await alerts.evaluate([token()]);
+
+    jest.spyOn(alerts['http'], 'post').mockRejectedValue(new Error('Invalid URL'));
+    await expect(alerts.deliverWebhooks(triggers)).resolves.toBeUndefined();
+  });
+
+  it('should not deliver to a host that now resolves to a private address', async () => {
+    await alerts.create({
+      token_address: ADDRESS,
+      metric: 'price_sol',
+      operator: 'above',
+      threshold: 0.5,
+      webhook_url: 'https://hooks.example.com/alerts',
+    });
+    const triggers = await alerts.evaluate([token()]);
+
+    jest
+      .spyOn(dns.promises, 'lookup')
+      .mockResolvedValue([{ address: '127.0.0.1', family: 4 }] as never);
+    const post = jest.spyOn(alerts['http'], 'post');
+    await alerts.deliverWebhooks(triggers);
+
+    expect(post).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,122 @@
+import { AnomalyDetector, AnomalyTracker } from '../anomalies';
+import { SnapshotStore } from '../history';
+import { CacheService } from '../cache';
+import { tokenFactory } from './helpers/fixtures';
+
+const token = tokenFactory({
+  token_address: 'Token',
+  market_cap_sol: 10000,
+  volume_sol: 500,
+  liquidity_sol: 1000,
+  transaction_count: 250,
+  buy_count: 150,
+  sell_count: 100,
+});
+
+describe('AnomalyDetector', () => {
+  const MINUTE = 60 * 1000;
+  const now = 1000 * MINUTE;
+  let cache: CacheService;
+  let snapshots: SnapshotStore;
+  let detector: AnomalyDetector;
+
+  beforeEach(() => {
+    cache = new CacheService();
+    jest.spyOn(cache, 'getRedisClient').mockReturnValue(null);
+    snapshots = new SnapshotStore(cache);
+    detector = new AnomalyDetector(snapshots);
+  });
+
+  afterEach(async () => {
+    await cache.close();
+  });
+
+  it('should not flag an ordinary token', async () => {
+    expect(await detector.detect(token(), now)).toEqual([]);
+  });
+
+  it('should flag implausibly large or small average trades', async () => {
+    expect(
+      await detector.detect(token({ volume_sol: 25000, transaction_count: 100 }), now)
+    ).toContain('implausible_volume_per_trade');
+    expect(
+      await detector.detect(token({ volume_sol: 0.5, transaction_count: 5000 }), now)
+    ).toContain('implausible_volume_per_trade');
+  });
+
+  it('should not judge trade size from a handful of trades', async () => {
+    expect(
+      await detector.detect(token({ volume_sol: 900, transaction_count: 5 }), now)
+    ).not.toContain('implausible_volume_per_trade');
+  });
+
+  it('should flag volume that spikes while liquidity stays flat', async () => {
+    await snapshots.record([token({ volume_sol: 100, liquidity_sol: 1000 })], now - 30 * MINUTE);
+    await snapshots.record([token({ volume_sol: 150, liquidity_sol: 1000 })], now - 10 * MINUTE);
+
+    expect(await detector.detect(token({ volume_sol: 400, liquidity_sol: 1020 }), now)).toContain(
+      'volume_spike_without_liquidity'
+    );
+  });
+
+  it('should accept a spike backed by new liquidity', async () => {
+    await snapshots.record([token({ volume_sol: 100, liquidity_sol: 1000 })], now - 30 * MINUTE);
+    await snapshots.record([token({ volume_sol: 150, liquidity_sol: 1500 })], now - 10 * MINUTE);
+
+    expect(
+      await detector.detect(token({ volume_sol: 400, liquidity_sol: 2000 }), now)
+    ).not.toContain('volume_spike_without_liquidity');
+  });
+
+  it('should fall back to turnover against liquidity without history', async () => {
+    expect(
+      await detector.detect(
+        token({ volume_sol: 60000, liquidity_sol: 1000, transaction_count: 5000 }),
+        now
+      )
+    ).toEqual(['volume_spike_without_liquidity']);
+  });
+
+  it('should flag near-identical buy and sell counts', async () => {
+    expect(await detector.detect(token({ buy_count: 1000, sell_count: 990 }), now)).toEqual([
+      'symmetric_trades',
+    ]);
+    // Too few trades for symmetry to mean anything
+    expect(await detector.detect(token({ buy_count: 50, sell_count: 50 }), now)).toEqual([]);
+  });
+
+  it('should annotate every token with its flags', async () => {
+    const [clean, washed] = await detector.annotate(
+      [token(), token({ token_address: 'Washed', buy_count: 500, sell_count: 500 })],
+      now
+    );
+    expect(clean.anomaly_flags).toEqual([]);
+    expect(washed.anomaly_flags).toEqual(['symmetric_trades']);
+  });
+});
+
+describe('AnomalyTracker', () => {
+  it('should report each flag once while it stays raised', () => {
+    const tracker = new AnomalyTracker();
+    const flagged = token({ anomaly_flags: ['symmetric_trades'] });
+
+    expect(tracker.track([flagged])).toEqual([{ token: flagged, flags: ['symmetric_trades'] }]);
+    expect(tracker.track([{ ...flagged, token_address: 'TOKEN' }])).toEqual([]);
+
+    const escalated = token({
+      anomaly_flags: ['symmetric_trades', 'implausible_volume_per_trade'],
+    });
+    expect(tracker.track([escalated])).toEqual([
+      { token: escalated, flags: ['implausible_volume_per_trade'] },
+    ]);
+  });
+
+  it('should report a flag again after it clears', () => {
+    const tracker = new AnomalyTracker();
+    const flagged = token({ anomaly_flags: ['symmetric_trades'] });
+
+    tracker.track([flagged]);
+    tracker.track([token({ anomaly_flags: [] })]);
+    expect(tracker.track([flagged])).toHaveLength(1);
+  });
+});
@@ -58,5 +58,17 @@ describe('CacheService', () => {
     expect(result2).toEqual({ data: 'fetched' });
     expect(fetchCount).toBe(1); // Should not increment
   });
+
+  it('should share one fetch between concurrent misses', async () => {
+    const fetchFn = jest.fn(async () => ({ data: 'fetched' }));
+
+    const results = await Promise.all([
+      cacheService.getOrSet('test:concurrent', fetchFn, 60),
+      cacheService.getOrSet('test:concurrent', fetchFn, 60),
+    ]);
+
+    expect(results).toEqual([{ data: 'fetched' }, { data: 'fetched' }]);
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+  });
 });
 
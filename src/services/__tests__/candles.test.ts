@@ -0,0 +1,62 @@
+import { buildCandles, isCandleInterval } from '../candles';
+import { TokenSample } from '../history';
+
+function sample(timestamp: number, price: number, volume = 2880): TokenSample {
+  return {
+    timestamp,
+    price_sol: price,
+    volume_sol: volume,
+    liquidity_sol: 100,
+    transaction_count: 10,
+  };
+}
+
+describe('candles', () => {
+  const MINUTE = 60 * 1000;
+
+  it('should build OHLC bars from samples in each interval', () => {
+    const candles = buildCandles(
+      [
+        sample(0, 1),
+        sample(20 * 1000, 3),
+        sample(40 * 1000, 0.5),
+        sample(50 * 1000, 2),
+        sample(MINUTE + 10 * 1000, 2.5),
+      ],
+      '1m'
+    );
+
+    expect(candles).toHaveLength(2);
+    expect(candles[0]).toMatchObject({
+      timestamp: 0,
+      open: 1,
+      high: 3,
+      low: 0.5,
+      close: 2,
+      samples: 4,
+    });
+    expect(candles[1]).toMatchObject({ timestamp: MINUTE, open: 2.5, close: 2.5, samples: 1 });
+  });
+
+  it('should estimate bar volume from the rolling 24h volume', () => {
+    // 2880 SOL per day is 2 SOL per minute
+    const [candle] = buildCandles([sample(0, 1, 2880), sample(30 * 1000, 1, 2880)], '1m');
+    expect(candle.volume_sol).toBeCloseTo(2, 10);
+  });
+
+  it('should sort samples and skip ones without a price', () => {
+    const candles = buildCandles(
+      [sample(4 * MINUTE, 2), sample(MINUTE, 1), sample(2 * MINUTE, 0)],
+      '5m'
+    );
+
+    expect(candles).toHaveLength(1);
+    expect(candles[0]).toMatchObject({ open: 1, close: 2, samples: 2 });
+  });
+
+  it('should validate interval names', () => {
+    expect(isCandleInterval('5m')).toBe(true);
+    expect(isCandleInterval('2h')).toBe(false);
+    expect(isCandleInterval('toString')).toBe(false);
+  });
+});
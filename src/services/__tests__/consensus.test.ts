@@ -0,0 +1,148 @@
+import { ConsensusMerger } from '../consensus';
+import { Pool } from '../../types/token';
+import { tokenFactory } from './helpers/fixtures';
+
+function pool(overrides: Partial<Pool>): Pool {
+  return {
+    pair_address: 'pair',
+    dex: 'raydium',
+    quote_token: { address: 'So11111111111111111111111111111111111111112', symbol: 'SOL' },
+    price_sol: 1,
+    liquidity_sol: 100,
+    volume_sol: 10,
+    transaction_count: 5,
+    source: 'dexscreener',
+    last_updated: 1000,
+    ...overrides,
+  };
+}
+
+const token = tokenFactory({
+  token_address: 'token',
+  market_cap_sol: 5000,
+  volume_sol: 10,
+  liquidity_sol: 100,
+  transaction_count: 5,
+  source: 'dexscreener',
+});
+
+describe('ConsensusMerger', () => {
+  const merger = new ConsensusMerger(() => 1, 0.1);
+
+  it('should reject a source whose price deviates beyond the threshold', () => {
+    const merged = merger.merge([
+      token({ source: 'alpha', price_sol: 1.0, liquidity_sol: 100 }),
+      token({ source: 'beta', price_sol: 1.02, liquidity_sol: 100 }),
+      // Most liquid, but far off the price the other two agree on
+      token({ source: 'gamma', price_sol: 3, liquidity_sol: 10000, volume_sol: 99999 }),
+    ]);
+
+    expect(merged.rejected_sources).toEqual(['gamma']);
+    expect(merged.source).toBe('alpha,beta');
+    expect(merged.price_sol).toBeCloseTo(1.01, 10);
+    expect(merged.volume_sol).toBe(10);
+  });
+
+  it('should liquidity-weight the price and sum volume over unique pools', () => {
+    const merged = merger.merge([
+      token({
+        source: 'alpha',
+        pools: [pool({ pair_address: 'PoolA', price_sol: 1, liquidity_sol: 300, volume_sol: 50 })],
+      }),
+      token({
+        source: 'alpha',
+        pools: [
+          pool({ pair_address: 'PoolB', price_sol: 1.08, liquidity_sol: 100, volume_sol: 20 }),
+        ],
+      }),
+      token({
+        source: 'beta',
+        pools: [pool({ pair_address: 'poola', price_sol: 1, liquidity_sol: 300, volume_sol: 50 })],
+      }),
+    ]);
+
+    expect(merged.pools).toHaveLength(2);
+    expect(merged.price_sol).toBeCloseTo(1.02, 10);
+    expect(merged.volume_sol).toBe(70);
+    expect(merged.liquidity_sol).toBe(400);
+    expect(merged.rejected_sources).toEqual([]);
+  });
+
+  it('should let source weight decide which side of a disagreement wins', () => {
+    const weighted = new ConsensusMerger((source) => (source === 'trusted' ? 5 : 1), 0.1);
+    const merged = weighted.merge([
+      token({ source: 'alpha', price_sol: 2 }),
+      token({ source: 'trusted', price_sol: 1 }),
+    ]);
+
+    expect(merged.price_sol).toBe(1);
+    expect(merged.rejected_sources).toEqual(['alpha']);
+  });
+
+  it('should take descriptive fields from the most liquid accepted source', () => {
+    const merged = merger.merge([
+      token({ source: 'alpha', protocol: 'Small', liquidity_sol: 10, price_7d_change: 4 }),
+      token({ source: 'beta', protocol: 'Deep', liquidity_sol: 1000 }),
+    ]);
+
+    expect(merged.protocol).toBe('Deep');
+    expect(merged.source).toBe('beta,alpha');
+    expect(merged.price_7d_change).toBe(4);
+  });
+
+  describe('provenance', () => {
+    it('should record the source and fetch time behind each field', () => {
+      const merged = merger.merge([
+        token({
+          source: 'alpha',
+          liquidity_sol: 500,
+          last_updated: 2000,
+          pools: [pool({ pair_address: 'PoolA', source: 'alpha', last_updated: 2000 })],
+        }),
+        token({ source: 'beta', price_7d_change: 12, last_updated: 3000 }),
+      ]);
+
+      expect(merged.provenance?.protocol).toEqual({ source: 'alpha', fetched_at: 2000 });
+      expect(merged.provenance?.price_sol).toEqual({ source: 'alpha', fetched_at: 2000 });
+      expect(merged.provenance?.price_7d_change).toEqual({ source: 'beta', fetched_at: 3000 });
+    });
+
+    it('should list every contributing source for price-only merges', () => {
+      const merged = merger.merge([
+        token({ source: 'alpha', last_updated: 1000 }),
+        token({ source: 'beta', last_updated: 4000 }),
+      ]);
+
+      expect(merged.provenance?.price_sol).toEqual({ source: 'alpha,beta', fetched_at: 4000 });
+      expect(merged.provenance?.price_7d_change).toBeUndefined();
+    });
+  });
+
+  describe('confidence', () => {
+    it('should be 1 when several sources agree exactly', () => {
+      const merged = merger.merge([token({ source: 'alpha' }), token({ source: 'beta' })]);
+      expect(merged.confidence).toBe(1);
+    });
+
+    it('should be halved for a single source', () => {
+      const merged = merger.merge([token({ source: 'alpha' })]);
+      expect(merged.confidence).toBe(0.5);
+    });
+
+    it('should drop when sources are rejected or spread apart', () => {
+      const agreeing = merger.merge([
+        token({ source: 'alpha', price_sol: 1 }),
+        token({ source: 'beta', price_sol: 1 }),
+        token({ source: 'gamma', price_sol: 1.05 }),
+      ]);
+      const withOutlier = merger.merge([
+        token({ source: 'alpha', price_sol: 1 }),
+        token({ source: 'beta', price_sol: 1 }),
+        token({ source: 'gamma', price_sol: 5 }),
+      ]);
+
+      expect(agreeing.confidence).toBeLessThan(1);
+      expect(withOutlier.confidence).toBeCloseTo(0.67, 2);
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { diffTokens, isEmptyDelta, applyDelta } from '../delta';
+import { RiskScorer } from '../risk';
+import { token } from './helpers/fixtures';
+
+describe('delta', () => {
+  it('should be empty when nothing changed', () => {
+    const tokens = [token('a'), token('b', { risk_reasons: [] })];
+    const delta = diffTokens(
+      tokens,
+      tokens.map((t) => ({ ...t }))
+    );
+    expect(isEmptyDelta(delta)).toBe(true);
+  });
+
+  it('should ignore the age ticking on unchanged data', () => {
+    const scorer = new RiskScorer();
+    const scored = (age_seconds: number) => scorer.score(token('a', { age_seconds }));
+
+    expect(isEmptyDelta(diffTokens([scored(600)], [scored(665)]))).toBe(true);
+    // Crossing an age bracket changes the score, which is a real change
+    expect(diffTokens([scored(3500)], [scored(3700)]).changed[0].fields).toMatchObject({
+      risk_score: 10,
+    });
+  });
+
+  it('should report added and removed tokens', () => {
+    const delta = diffTokens([token('a'), token('b')], [token('a'), token('c')]);
+    expect(delta.added.map((t) => t.token_address)).toEqual(['c']);
+    expect(delta.removed).toEqual(['b']);
+    expect(delta.changed).toEqual([]);
+    expect(delta.order).toBeUndefined();
+  });
+
+  it('should send only the fields that changed, with null for cleared ones', () => {
+    const delta = diffTokens(
+      [token('a', { price_1hr_change: 5, pools: [] })],
+      [token('a', { price_sol: 2, pools: [] })]
+    );
+    expect(delta.changed).toEqual([
+      { token_address: 'a', fields: { price_sol: 2, price_1hr_change: null } },
+    ]);
+  });
+
+  it('should include the order only when it changed', () => {
+    const delta = diffTokens([token('a'), token('b')], [token('b'), token('a')]);
+    expect(delta.order).toEqual(['b', 'a']);
+    expect(isEmptyDelta(delta)).toBe(false);
+  });
+
+  it('should rebuild the new list when applied to the old one', () => {
+    const previous = [token('a'), token('b', { price_5m_change: 1 }), token('c')];
+    const next = [token('d'), token('b', { volume_sol: 50 }), token('a', { price_sol: 3 })];
+
+    expect(applyDelta(previous, diffTokens(previous, next))).toEqual(next);
+  });
+});
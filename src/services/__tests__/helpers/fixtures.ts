@@ -0,0 +1,48 @@
+import { Socket } from 'socket.io';
+import { Token } from '../../../types/token';
+
+/*
+ * Fixtures shared by the service tests. Jest skips this directory when
+ * collecting suites.
+ */
+
+// A minimal valid token; tests override the fields they exercise
+export function token(address: string, overrides: Partial<Token> = {}): Token {
+  return {
+    token_address: address,
+    token_name: address,
+    token_ticker: address.toUpperCase(),
+    price_sol: 1,
+    market_cap_sol: 1000,
+    volume_sol: 100,
+    liquidity_sol: 200,
+    transaction_count: 10,
+    protocol: 'raydium',
+    ...overrides,
+  };
+}
+
+// For suites whose cases each vary a few fields of one baseline token
+export function tokenFactory(defaults: Partial<Token> & Pick<Token, 'token_address'>) {
+  return (overrides: Partial<Token> = {}): Token =>
+    token(defaults.token_address, { ...defaults, ...overrides });
+}
+
+// The parts of a Socket.IO socket WebSocketService calls, as mocks.
+// receive() delivers a client event to the handler the service registered.
+export function socketStub(id: string) {
+  const stub = {
+    id,
+    emit: jest.fn(),
+    join: jest.fn(),
+    leave: jest.fn(),
+    disconnect: jest.fn(),
+  } satisfies Partial<Socket>;
+
+  const handlers = new Map<string, (...args: unknown[]) => void>();
+  const on = (event: string, handler: (...args: unknown[]) => void) => {
+    handlers.set(event, handler);
+  };
+  const receive = (event: string, ...args: unknown[]) => handlers.get(event)?.(...args);
+  return Object.assign(stub, { on, receive }) as typeof stub & { receive: typeof receive } & Socket;
+}
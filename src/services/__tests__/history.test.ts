@@ -0,0 +1,97 @@
+import { SnapshotStore } from '../history';
+import { CacheService } from '../cache';
+import { tokenFactory } from './helpers/fixtures';
+
+const token = tokenFactory({
+  token_address: 'MintA',
+  token_name: 'Token A',
+  token_ticker: 'TKA',
+  volume_sol: 500,
+  transaction_count: 100,
+  source: 'dexscreener',
+});
+
+describe('SnapshotStore', () => {
+  const MINUTE = 60 * 1000;
+  let cache: CacheService;
+
+  beforeEach(() => {
+    cache = new CacheService();
+    // Exercise the in-memory ring buffer
+    jest.spyOn(cache, 'getRedisClient').mockReturnValue(null);
+  });
+
+  afterEach(async () => {
+    await cache.close();
+  });
+
+  it('should record a sample per token and read it back by address', async () => {
+    const store = new SnapshotStore(cache);
+    await store.record([token({ price_sol: 1 }), token({ token_address: 'MintB' })], 1000);
+    await store.record([token({ price_sol: 2 })], 2000);
+
+    const samples = await store.getSamples('minta');
+    expect(samples.map((s) => s.price_sol)).toEqual([1, 2]);
+    expect(samples[0]).toEqual({
+      timestamp: 1000,
+      price_sol: 1,
+      volume_sol: 500,
+      liquidity_sol: 200,
+      transaction_count: 100,
+    });
+    expect(store.getTrackedTokenCount()).toBe(2);
+  });
+
+  it('should filter samples by time range', async () => {
+    const store = new SnapshotStore(cache);
+    for (const timestamp of [1000, 2000, 3000, 4000]) {
+      await store.record([token()], timestamp);
+    }
+
+    const samples = await store.getSamples('MintA', 2000, 3000);
+    expect(samples.map((s) => s.timestamp)).toEqual([2000, 3000]);
+  });
+
+  it('should overwrite the oldest samples once the ring buffer is full', async () => {
+    const store = new SnapshotStore(cache, { memorySamples: 3 });
+    for (let i = 1; i <= 5; i++) {
+      await store.record([token({ price_sol: i })], i * 1000);
+    }
+
+    const samples = await store.getSamples('MintA');
+    expect(samples.map((s) => s.price_sol)).toEqual([3, 4, 5]);
+  });
+
+  it('should drop expired samples and thin old ones to one per interval', async () => {
+    const store = new SnapshotStore(cache, {
+      retentionSeconds: 3600,
+      downsampleAfterSeconds: 600,
+      downsampleIntervalSeconds: 300,
+    });
+    const now = 120 * MINUTE;
+
+    // Past retention
+    await store.record([token({ price_sol: 0 })], now - 90 * MINUTE);
+    // Two samples in the same 5 minute bucket, older than the threshold
+    await store.record([token({ price_sol: 1 })], now - 30 * MINUTE);
+    await store.record([token({ price_sol: 2 })], now - 29 * MINUTE);
+    // Recent samples stay at full resolution
+    await store.record([token({ price_sol: 3 })], now - 2 * MINUTE);
+    await store.record([token({ price_sol: 4 })], now - 1 * MINUTE);
+
+    await store.downsample(now);
+
+    const samples = await store.getSamples('MintA');
+    expect(samples.map((s) => s.price_sol)).toEqual([2, 3, 4]);
+  });
+
+  it('should forget tokens whose samples have all expired', async () => {
+    const store = new SnapshotStore(cache, { retentionSeconds: 60 });
+    await store.record([token()], 0);
+
+    await store.downsample(10 * MINUTE);
+
+    expect(store.getTrackedTokenCount()).toBe(0);
+    expect(await store.getSamples('MintA')).toEqual([]);
+  });
+});
@@ -0,0 +1,26 @@
+import { NewListingDetector } from '../listings';
+import { token } from './helpers/fixtures';
+
+describe('NewListingDetector', () => {
+  it('should prime on the first refresh without reporting anything', () => {
+    const detector = new NewListingDetector();
+    expect(detector.detect([token('A'), token('B')])).toEqual([]);
+  });
+
+  it('should report each address only the first time it appears', () => {
+    const detector = new NewListingDetector();
+    detector.detect([token('A')]);
+
+    expect(detector.detect([token('A'), token('B')]).map((t) => t.token_address)).toEqual(['B']);
+    expect(detector.detect([token('b'), token('C')]).map((t) => t.token_address)).toEqual(['C']);
+  });
+
+  it('should not report a token again after it drops out and returns', () => {
+    const detector = new NewListingDetector();
+    detector.detect([]);
+    detector.detect([token('A')]);
+    detector.detect([]);
+
+    expect(detector.detect([token('A')])).toEqual([]);
+  });
+});
@@ -0,0 +1,96 @@
+import { MoversService, isMoverWindow } from '../movers';
+import { SnapshotStore } from '../history';
+import { CacheService } from '../cache';
+import { token } from './helpers/fixtures';
+
+describe('MoversService', () => {
+  const MINUTE = 60 * 1000;
+  const now = 1000 * MINUTE;
+  let cache: CacheService;
+  let snapshots: SnapshotStore;
+  let movers: MoversService;
+
+  beforeEach(() => {
+    cache = new CacheService();
+    jest.spyOn(cache, 'getRedisClient').mockReturnValue(null);
+    snapshots = new SnapshotStore(cache);
+    movers = new MoversService(snapshots);
+  });
+
+  afterEach(async () => {
+    await cache.close();
+  });
+
+  it('should rank by the upstream change matching the window', async () => {
+    const tokens = [
+      token('a', { price_1hr_change: 5, price_24hr_change: 90 }),
+      token('b', { price_1hr_change: 20, price_24hr_change: 1 }),
+      token('c', { price_1hr_change: -10 }),
+    ];
+
+    const gainers = await movers.rank(tokens, '1h', 'up', now);
+    expect(gainers.map((m) => m.token.token_address)).toEqual(['b', 'a']);
+    expect(gainers[0]).toMatchObject({ price_change: 20, price_change_source: 'upstream' });
+
+    const losers = await movers.rank(tokens, '1h', 'down', now);
+    expect(losers.map((m) => m.token.token_address)).toEqual(['c']);
+
+    const daily = await movers.rank(tokens, '24h', 'up', now);
+    expect(daily.map((m) => m.token.token_address)).toEqual(['a', 'b']);
+  });
+
+  it('should use snapshot history for windows without an upstream field', async () => {
+    await snapshots.record(
+      [token('a', { price_sol: 1 }), token('b', { price_sol: 2 })],
+      now - 5 * MINUTE
+    );
+    await snapshots.record([token('a', { price_sol: 1.1 }), token('b', { price_sol: 2 })], now);
+
+    const ranked = await movers.rank([token('a'), token('b')], '5m', 'up', now);
+    expect(ranked).toHaveLength(1);
+    expect(ranked[0].token.token_address).toBe('a');
+    expect(ranked[0].price_change).toBeCloseTo(10, 10);
+    expect(ranked[0].price_change_source).toBe('history');
+  });
+
+  it('should ignore history that covers too little of the window', async () => {
+    await snapshots.record([token('a', { price_sol: 1 })], now - MINUTE);
+    await snapshots.record([token('a', { price_sol: 2 })], now);
+
+    expect(await movers.rank([token('a')], '5m', 'up', now)).toEqual([]);
+  });
+
+  it('should rank moves backed by rising volume and transactions higher', async () => {
+    await snapshots.record(
+      [
+        token('quiet', { volume_sol: 100, transaction_count: 10 }),
+        token('busy', { volume_sol: 100, transaction_count: 10 }),
+      ],
+      now - 60 * MINUTE
+    );
+    await snapshots.record(
+      [
+        token('quiet', { volume_sol: 100, transaction_count: 10 }),
+        token('busy', { volume_sol: 200, transaction_count: 15 }),
+      ],
+      now
+    );
+
+    const ranked = await movers.rank(
+      [token('quiet', { price_1hr_change: 12 }), token('busy', { price_1hr_change: 10 })],
+      '1h',
+      'up',
+      now
+    );
+
+    expect(ranked.map((m) => m.token.token_address)).toEqual(['busy', 'quiet']);
+    expect(ranked[0]).toMatchObject({ volume_acceleration: 100, transaction_growth: 50 });
+    expect(ranked[0].score).toBeCloseTo(17.5, 10);
+    expect(ranked[1].score).toBe(12);
+  });
+
+  it('should validate window names', () => {
+    expect(isMoverWindow('5m')).toBe(true);
+    expect(isMoverWindow('7d')).toBe(false);
+  });
+});
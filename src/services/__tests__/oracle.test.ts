@@ -0,0 +1,106 @@
+import { SolPriceOracle, SOL_MINT } from '../oracle';
+import { cacheService } from '../cache';
+
+const jupiterResponse = {
+  data: { [SOL_MINT]: { id: SOL_MINT, type: 'derivedPrice', price: '152.37' } },
+  timeTaken: 0.002,
+};
+
+const dexscreenerResponse = {
+  pairs: [
+    {
+      chainId: 'solana',
+      quoteToken: { symbol: 'USDT' },
+      priceUsd: '151.10',
+      liquidity: { usd: 2000000 },
+    },
+    {
+      chainId: 'solana',
+      quoteToken: { symbol: 'USDC' },
+      priceUsd: '151.90',
+      liquidity: { usd: 9000000 },
+    },
+    {
+      chainId: 'ethereum',
+      quoteToken: { symbol: 'USDC' },
+      priceUsd: '1.00',
+      liquidity: { usd: 99000000 },
+    },
+  ],
+};
+
+describe('SolPriceOracle', () => {
+  let oracle: SolPriceOracle;
+  let jupiterGet: jest.SpyInstance;
+  let dexscreenerGet: jest.SpyInstance;
+
+  beforeEach(async () => {
+    await cacheService.del(cacheService.generateKey('oracle', 'sol_usd'));
+    oracle = new SolPriceOracle(30, 300);
+    jupiterGet = jest.spyOn(oracle['jupiter'], 'get').mockResolvedValue({ data: jupiterResponse });
+    dexscreenerGet = jest
+      .spyOn(oracle['dexscreener'], 'get')
+      .mockResolvedValue({ data: dexscreenerResponse });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should fetch SOL/USD from Jupiter', async () => {
+    const quote = await oracle.getQuote();
+    expect(quote?.price_usd).toBe(152.37);
+    expect(quote?.source).toBe('jupiter');
+    expect(dexscreenerGet).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to the deepest DexScreener SOL/stablecoin pair', async () => {
+    jupiterGet.mockRejectedValue(new Error('jupiter down'));
+    const quote = await oracle.getQuote();
+    expect(quote?.price_usd).toBe(151.9);
+    expect(quote?.source).toBe('dexscreener');
+  });
+
+  it('should reuse the quote until the refresh interval elapses', async () => {
+    await oracle.getQuote();
+    await oracle.getQuote();
+    expect(jupiterGet).toHaveBeenCalledTimes(1);
+  });
+
+  it('should share the cached quote between instances', async () => {
+    await oracle.getQuote();
+
+    const other = new SolPriceOracle(30, 300);
+    const otherGet = jest.spyOn(other['jupiter'], 'get');
+    const quote = await other.getQuote();
+
+    expect(quote?.price_usd).toBe(152.37);
+    expect(otherGet).not.toHaveBeenCalled();
+  });
+
+  it('should report staleness and refuse conversions once the quote is too old', async () => {
+    jest.useFakeTimers({ now: 1_000_000, doNotFake: ['nextTick', 'setImmediate'] });
+    expect(await oracle.getFreshPrice()).toBe(152.37);
+
+    // Both sources fail from now on, so the last quote keeps ageing
+    jupiterGet.mockRejectedValue(new Error('jupiter down'));
+    dexscreenerGet.mockRejectedValue(new Error('dexscreener down'));
+
+    jest.setSystemTime(1_000_000 + 120_000);
+    expect(oracle.getStatus()).toMatchObject({ age_seconds: 120, stale: false });
+    expect(await oracle.getFreshPrice()).toBe(152.37);
+
+    jest.setSystemTime(1_000_000 + 301_000);
+    expect(oracle.isStale()).toBe(true);
+    expect(await oracle.getFreshPrice()).toBeNull();
+  });
+
+  it('should report an empty status before the first quote', () => {
+    expect(oracle.getStatus()).toEqual({
+      price_usd: null,
+      source: null,
+      age_seconds: null,
+      stale: true,
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import WebSocket from 'ws';
+import { PlainSocketServer, ProtocolError, parseMessage } from '../plainsocket';
+import { WebSocketService } from '../websocket';
+import { cacheService } from '../cache';
+import { token } from './helpers/fixtures';
+
+describe('parseMessage', () => {
+  it('should accept versioned messages of known types', () => {
+    expect(parseMessage('{"v":1,"type":"ping","id":"a"}')).toEqual({ v: 1, type: 'ping', id: 'a' });
+    expect(
+      parseMessage('{"v":1,"type":"subscribe","preferences":{"pagination":{"limit":5}}}')
+    ).toEqual({ v: 1, type: 'subscribe', preferences: { pagination: { limit: 5 } } });
+  });
+
+  it('should reject malformed, unversioned and unknown messages', () => {
+    const codeOf = (raw: string) => {
+      try {
+        parseMessage(raw);
+      } catch (error) {
+        return (error as ProtocolError).code;
+      }
+      return undefined;
+    };
+
+    expect(codeOf('not json')).toBe('invalid_message');
+    expect(codeOf('[1]')).toBe('invalid_message');
+    expect(codeOf('{"type":"ping"}')).toBe('unsupported_version');
+    expect(codeOf('{"v":2,"type":"ping"}')).toBe('unsupported_version');
+    expect(codeOf('{"v":1,"type":"resync"}')).toBe('unknown_type');
+    expect(codeOf('{"v":1,"type":"subscribe","preferences":"all"}')).toBe('invalid_message');
+  });
+
+  it('should validate subscribe preferences with the shared schema', () => {
+    const message = parseMessage(
+      '{"v":1,"type":"subscribe","preferences":{"pagination":{"limit":"5"},"sort":{}}}'
+    );
+    expect(message).toEqual({
+      v: 1,
+      type: 'subscribe',
+      preferences: { pagination: { limit: 5 }, sort: { field: 'volume', order: 'desc' } },
+    });
+
+    try {
+      parseMessage('{"v":1,"type":"subscribe","preferences":{"filter":{"maxRisk":500}}}');
+      throw new Error('expected a ProtocolError');
+    } catch (error) {
+      expect((error as ProtocolError).details).toEqual([
+        expect.objectContaining({ field: 'preferences.filter.maxRisk' }),
+      ]);
+    }
+  });
+});
+
+describe('PlainSocketServer', () => {
+  let server: http.Server;
+  let service: WebSocketService;
+  let plain: PlainSocketServer;
+  let client: WebSocket;
+  let received: Array<Record<string, unknown>>;
+
+  // Resolves with the next message of a type, including ones already received
+  function next(type: string): Promise<Record<string, unknown>> {
+    return new Promise((resolve) => {
+      const check = () => {
+        const index = received.findIndex((message) => message.type === type);
+        if (index === -1) {
+          client.once('message', check);
+          return;
+        }
+        resolve(received.splice(index, 1)[0]);
+      };
+      check();
+    });
+  }
+
+  beforeEach(async () => {
+    server = http.createServer();
+    service = new WebSocketService(server);
+    jest.spyOn(service['aggregator'], 'aggregateTokens').mockResolvedValue([token('a')]);
+    plain = new PlainSocketServer(server, service, '/ws');
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+
+    received = [];
+    client = new WebSocket(`ws://localhost:${(server.address() as AddressInfo).port}/ws`);
+    client.on('message', (raw) => received.push(JSON.parse(raw.toString())));
+    await new Promise((resolve) => client.once('open', resolve));
+  });
+
+  afterEach(async () => {
+    client.close();
+    plain.stop();
+    service.stop();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  afterAll(async () => {
+    await cacheService.close();
+  });
+
+  it('should answer pings', async () => {
+    client.send(JSON.stringify({ v: 1, type: 'ping', id: 'p1' }));
+    expect(await next('pong')).toMatchObject({ v: 1, id: 'p1' });
+  });
+
+  it('should send the subscribed view as updates', async () => {
+    client.send(
+      JSON.stringify({ v: 1, type: 'subscribe', preferences: { pagination: { limit: 5 } } })
+    );
+
+    expect(await next('subscribed')).toMatchObject({ v: 1 });
+    const update = await next('update');
+    expect(update).toMatchObject({
+      v: 1,
+      event: 'tokens:update',
+      data: { type: 'full', sequence: 1 },
+    });
+    expect(update.event_id).toMatch(/:1$/);
+    expect(service.getMetrics().streams).toBe(1);
+
+    client.send(JSON.stringify({ v: 1, type: 'unsubscribe' }));
+    await next('unsubscribed');
+    expect(service.getMetrics().streams).toBe(0);
+  });
+
+  it('should report protocol errors without closing the connection', async () => {
+    client.send(JSON.stringify({ v: 9, type: 'ping' }));
+    expect(await next('error')).toMatchObject({ v: 1, code: 'unsupported_version' });
+
+    client.send(JSON.stringify({ v: 1, type: 'ping' }));
+    await next('pong');
+  });
+
+  it('should answer unexpected failures with internal_error', async () => {
+    jest.spyOn(service, 'addStream').mockRejectedValueOnce(new Error('boom'));
+    client.send(JSON.stringify({ v: 1, type: 'subscribe' }));
+    expect(await next('error')).toMatchObject({ v: 1, code: 'internal_error' });
+
+    client.send(JSON.stringify({ v: 1, type: 'ping' }));
+    await next('pong');
+  });
+
+  it('should close connections that send oversized frames', async () => {
+    const closed = new Promise((resolve) => client.once('close', resolve));
+    client.send(JSON.stringify({ v: 1, type: 'ping', id: 'x'.repeat(70 * 1024) }));
+    expect(await closed).toBe(1009);
+  });
+});
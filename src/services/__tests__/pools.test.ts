@@ -0,0 +1,131 @@
+import { mergePools, applyPoolAggregates, sortPoolsByLiquidity } from '../pools';
+import { Pool, Token } from '../../types/token';
+
+function pool(overrides: Partial<Pool>): Pool {
+  return {
+    pair_address: 'pair',
+    dex: 'raydium',
+    quote_token: { address: 'So11111111111111111111111111111111111111112', symbol: 'SOL' },
+    price_sol: 1,
+    liquidity_sol: 100,
+    volume_sol: 10,
+    transaction_count: 5,
+    source: 'dexscreener',
+    last_updated: 1000,
+    ...overrides,
+  };
+}
+
+const baseToken: Token = {
+  token_address: 'token',
+  token_name: 'Token',
+  token_ticker: 'TKN',
+  price_sol: 9,
+  market_cap_sol: 5000,
+  volume_sol: 0,
+  liquidity_sol: 0,
+  transaction_count: 0,
+  protocol: 'raydium',
+  source: 'dexscreener',
+};
+
+describe('pools', () => {
+  describe('mergePools', () => {
+    it('should keep one entry per pair address, preferring the most recent', () => {
+      const older = pool({ pair_address: 'PairA', price_sol: 1, last_updated: 1000 });
+      const newer = pool({ pair_address: 'paira', price_sol: 2, last_updated: 2000 });
+      const other = pool({ pair_address: 'PairB' });
+
+      const merged = mergePools([older, other], [newer]);
+      expect(merged).toHaveLength(2);
+      expect(merged.find((p) => p.pair_address.toLowerCase() === 'paira')?.price_sol).toBe(2);
+    });
+
+    it('should handle missing pool lists', () => {
+      expect(mergePools(undefined, [pool({})])).toHaveLength(1);
+      expect(mergePools()).toEqual([]);
+    });
+  });
+
+  describe('applyPoolAggregates', () => {
+    it('should sum liquidity, volume and transactions across pools', () => {
+      const token = applyPoolAggregates({
+        ...baseToken,
+        pools: [
+          pool({ pair_address: 'a', liquidity_sol: 300, volume_sol: 50, transaction_count: 7 }),
+          pool({ pair_address: 'b', liquidity_sol: 100, volume_sol: 20, transaction_count: 3 }),
+        ],
+      });
+
+      expect(token.liquidity_sol).toBe(400);
+      expect(token.volume_sol).toBe(70);
+      expect(token.transaction_count).toBe(10);
+      expect(token.market_cap_sol).toBe(5000);
+    });
+
+    it('should weight price and price changes by pool liquidity', () => {
+      const token = applyPoolAggregates({
+        ...baseToken,
+        pools: [
+          pool({ pair_address: 'a', price_sol: 1, liquidity_sol: 300, price_1hr_change: 10 }),
+          pool({ pair_address: 'b', price_sol: 2, liquidity_sol: 100, price_1hr_change: -10 }),
+          // A pool without liquidity must not move the price
+          pool({ pair_address: 'c', price_sol: 1000, liquidity_sol: 0 }),
+        ],
+      });
+
+      expect(token.price_sol).toBeCloseTo(1.25, 10);
+      expect(token.price_1hr_change).toBeCloseTo(5, 10);
+      expect(token.price_24hr_change).toBeUndefined();
+    });
+
+    it('should keep the token price when no pool has liquidity', () => {
+      const token = applyPoolAggregates({
+        ...baseToken,
+        pools: [pool({ liquidity_sol: 0, price_sol: 3 })],
+      });
+      expect(token.price_sol).toBe(9);
+    });
+
+    it('should sum windowed volumes and buy/sell counts over the pools that report them', () => {
+      const result = applyPoolAggregates({
+        ...baseToken,
+        pools: [
+          pool({ pair_address: 'A', volume_1hr_sol: 4, buy_count: 30, sell_count: 10 }),
+          pool({ pair_address: 'B', volume_1hr_sol: 6, buy_count: 10, sell_count: 10 }),
+          pool({ pair_address: 'C' }),
+        ],
+      });
+
+      expect(result.volume_1hr_sol).toBe(10);
+      expect(result.volume_5m_sol).toBeUndefined();
+      expect(result.buy_count).toBe(40);
+      expect(result.sell_count).toBe(20);
+      expect(result.buy_sell_ratio).toBe(2);
+    });
+
+    it('should date the token by its oldest pool', () => {
+      const result = applyPoolAggregates({
+        ...baseToken,
+        pools: [
+          pool({ pair_address: 'A', created_at: 3000 }),
+          pool({ pair_address: 'B', created_at: 1000 }),
+          pool({ pair_address: 'C' }),
+        ],
+      });
+      expect(result.created_at).toBe(1000);
+    });
+
+    it('should leave tokens without pools unchanged', () => {
+      expect(applyPoolAggregates(baseToken)).toBe(baseToken);
+    });
+  });
+
+  it('should sort pools by liquidity descending', () => {
+    const sorted = sortPoolsByLiquidity([
+      pool({ pair_address: 'small', liquidity_sol: 1 }),
+      pool({ pair_address: 'large', liquidity_sol: 50 }),
+    ]);
+    expect(sorted.map((p) => p.pair_address)).toEqual(['large', 'small']);
+  });
+});
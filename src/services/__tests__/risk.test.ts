@@ -0,0 +1,88 @@
+import { RiskScorer } from '../risk';
+import { Pool, Token } from '../../types/token';
+import { tokenFactory } from './helpers/fixtures';
+
+function pool(pairAddress: string, liquidity: number): Pool {
+  return {
+    pair_address: pairAddress,
+    dex: 'raydium',
+    quote_token: { address: 'So11111111111111111111111111111111111111112', symbol: 'SOL' },
+    price_sol: 1,
+    liquidity_sol: liquidity,
+    volume_sol: 10,
+    transaction_count: 5,
+    source: 'dexscreener',
+  };
+}
+
+// A token with no red flags
+const token = tokenFactory({
+  token_address: 'token',
+  volume_sol: 500,
+  transaction_count: 100,
+  buy_count: 50,
+  sell_count: 50,
+  age_seconds: 30 * 24 * 60 * 60,
+  pools: [pool('A', 100), pool('B', 100)],
+});
+
+describe('RiskScorer', () => {
+  const scorer = new RiskScorer();
+  const factors = (t: Token) => (t.risk_reasons || []).map((reason) => reason.factor);
+
+  it('should score an established, liquid, balanced token as zero risk', () => {
+    const scored = scorer.score(token());
+    expect(scored.risk_score).toBe(0);
+    expect(scored.risk_reasons).toEqual([]);
+  });
+
+  it('should flag thin liquidity relative to market cap', () => {
+    expect(scorer.score(token({ liquidity_sol: 40, pools: undefined })).risk_score).toBe(15);
+    expect(scorer.score(token({ liquidity_sol: 10, pools: undefined })).risk_score).toBe(30);
+  });
+
+  it('should flag new and undated pairs', () => {
+    expect(scorer.score(token({ age_seconds: 600 })).risk_reasons).toEqual([
+      { factor: 'pair_age', points: 20, detail: 'Oldest pair is less than an hour old' },
+    ]);
+    expect(scorer.score(token({ age_seconds: 5 * 3600 })).risk_score).toBe(10);
+    expect(scorer.score(token({ age_seconds: undefined })).risk_score).toBe(5);
+  });
+
+  it('should flag one-sided trading once there are enough trades', () => {
+    expect(scorer.score(token({ buy_count: 90, sell_count: 10 })).risk_score).toBe(15);
+    expect(scorer.score(token({ buy_count: 40, sell_count: 0 })).risk_score).toBe(25);
+    expect(scorer.score(token({ buy_count: 9, sell_count: 0 })).risk_score).toBe(0);
+  });
+
+  it('should flag liquidity concentrated in a single pool', () => {
+    expect(factors(scorer.score(token({ pools: [pool('A', 200)] })))).toEqual([
+      'pool_concentration',
+    ]);
+    expect(factors(scorer.score(token({ pools: [pool('A', 196), pool('B', 4)] })))).toEqual([
+      'pool_concentration',
+    ]);
+  });
+
+  it('should flag market caps estimated from volume', () => {
+    expect(factors(scorer.score(token({ market_cap_estimated: true })))).toEqual([
+      'estimated_market_cap',
+    ]);
+  });
+
+  it('should add up every red flag', () => {
+    const scored = scorer.score(
+      token({
+        liquidity_sol: 1,
+        market_cap_sol: 1000,
+        age_seconds: 60,
+        buy_count: 100,
+        sell_count: 0,
+        pools: [pool('A', 1)],
+        market_cap_estimated: true,
+      })
+    );
+    expect(scored.risk_score).toBe(95);
+    expect(scored.risk_reasons).toHaveLength(5);
+  });
+});
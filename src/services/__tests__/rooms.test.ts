@@ -0,0 +1,41 @@
+import { normalizePreferences, roomFor } from '../rooms';
+
+describe('rooms', () => {
+  it('should put equivalent preferences in the same room', () => {
+    const a = roomFor({
+      filter: { minVolume: 100, protocol: 'Raydium', timePeriod: undefined },
+      sort: { field: 'volume', order: 'desc' },
+      pagination: { limit: 25 },
+      include: ['provenance', 'provenance'],
+    });
+    const b = roomFor({
+      include: ['provenance'],
+      pagination: { cursor: '0', limit: 25 },
+      sort: { order: 'desc', field: 'volume' },
+      filter: { protocol: 'raydium', minVolume: 100 },
+    });
+    expect(a).toBe(b);
+    expect(a).toMatch(/^view:[0-9a-f]{16}$/);
+  });
+
+  it('should treat missing preferences as the default view', () => {
+    expect(roomFor()).toBe(roomFor({}));
+    expect(roomFor({})).toBe(roomFor({ filter: {}, include: [], pagination: { limit: 25 } }));
+  });
+
+  it('should separate views that differ', () => {
+    const base = { sort: { field: 'volume' as const, order: 'desc' as const } };
+    expect(roomFor(base)).not.toBe(roomFor({ ...base, sort: { field: 'volume', order: 'asc' } }));
+    expect(roomFor(base)).not.toBe(roomFor({ ...base, pagination: { cursor: '25' } }));
+    expect(roomFor(base)).not.toBe(roomFor({ ...base, include: ['provenance'] }));
+  });
+
+  it('should make pagination explicit', () => {
+    expect(normalizePreferences().pagination).toEqual({ cursor: '0', limit: 25 });
+    // Pagination without a limit falls back to the REST default
+    expect(normalizePreferences({ pagination: { cursor: '-5' } }).pagination).toEqual({
+      cursor: '0',
+      limit: 20,
+    });
+  });
+});
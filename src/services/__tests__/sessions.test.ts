@@ -0,0 +1,63 @@
+import { ReplayBuffer, SessionStore } from '../sessions';
+
+describe('SessionStore', () => {
+  it('should keep a detached session until the TTL runs out', () => {
+    const store = new SessionStore(1000);
+    const session = store.create('socket-1', { sort: { field: 'volume', order: 'desc' } });
+
+    expect(session.id).toMatch(/^[0-9a-f]{32}$/);
+    store.detach(session, 10_000);
+    expect(session.socketId).toBeUndefined();
+    expect(store.get(session.id, 10_500)).toBe(session);
+
+    expect(store.get(session.id, 11_500)).toBeUndefined();
+    expect(store.expire(11_500)).toEqual([session]);
+    expect(store.size).toBe(0);
+  });
+
+  it('should never expire a session with a connected socket', () => {
+    const store = new SessionStore(1000);
+    const session = store.create('socket-1');
+
+    store.detach(session, 0);
+    store.attach(session, 'socket-2');
+    expect(store.expire(60_000)).toEqual([]);
+    expect(store.get(session.id, 60_000)?.socketId).toBe('socket-2');
+  });
+
+  it('should not find unknown sessions', () => {
+    const store = new SessionStore();
+    expect(store.get('nope')).toBeUndefined();
+    expect(store.get(undefined)).toBeUndefined();
+  });
+});
+
+describe('ReplayBuffer', () => {
+  it('should return the messages after a sequence', () => {
+    const buffer = new ReplayBuffer<string>(10);
+    [1, 2, 3, 4].forEach((sequence) => buffer.push(sequence, `#${sequence}`));
+
+    expect(buffer.since(2, 4)).toEqual(['#3', '#4']);
+    expect(buffer.since(0, 4)).toEqual(['#1', '#2', '#3', '#4']);
+    expect(buffer.since(4, 4)).toEqual([]);
+  });
+
+  it('should give up when messages were dropped or the sequence is unknown', () => {
+    const buffer = new ReplayBuffer<string>(2);
+    [1, 2, 3, 4].forEach((sequence) => buffer.push(sequence, `#${sequence}`));
+
+    expect(buffer.since(2, 4)).toEqual(['#3', '#4']);
+    expect(buffer.since(1, 4)).toBeNull();
+    expect(buffer.since(7, 4)).toBeNull();
+    expect(buffer.since(NaN, 4)).toBeNull();
+  });
+
+  it('should start over when cleared', () => {
+    const buffer = new ReplayBuffer<string>(10);
+    buffer.push(1, '#1');
+    buffer.clear();
+
+    expect(buffer.since(0, 2)).toBeNull();
+    expect(buffer.since(2, 2)).toEqual([]);
+  });
+});
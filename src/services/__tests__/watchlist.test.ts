@@ -0,0 +1,76 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { WatchlistService, WatchlistValidationError } from '../watchlist';
+
+const BONK = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+const WIF = 'EKpQGSJtjMFqKZ9KQanSqYXRcF8fBopzLHYxdM65zcjm';
+
+describe('WatchlistService', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'watchlist-'));
+    filePath = path.join(dir, 'watchlist.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function writeWatchlist(content: unknown): void {
+    fs.writeFileSync(filePath, JSON.stringify(content));
+  }
+
+  it('should fall back to the default queries when no file exists', () => {
+    const service = new WatchlistService(filePath);
+    expect(service.getQueries()).toContain('BONK');
+    expect(service.getMints()).toEqual([]);
+  });
+
+  it('should load queries and mints from the file, removing duplicates', () => {
+    writeWatchlist({ queries: ['BONK', ' bonk ', 'WIF', 'COPE', 'COPE'], mints: [BONK, BONK] });
+    const service = new WatchlistService(filePath);
+
+    expect(service.getQueries()).toEqual(['BONK', 'WIF', 'COPE']);
+    expect(service.getMints()).toEqual([BONK]);
+  });
+
+  it('should pick up file edits on reload', () => {
+    writeWatchlist({ queries: ['BONK'], mints: [] });
+    const service = new WatchlistService(filePath);
+
+    writeWatchlist({ queries: ['MEW'], mints: [WIF] });
+    expect(service.reload()).toEqual({ queries: ['MEW'], mints: [WIF] });
+  });
+
+  it('should keep the current watchlist when a reload finds an invalid file', () => {
+    writeWatchlist({ queries: ['BONK'], mints: [] });
+    const service = new WatchlistService(filePath);
+
+    fs.writeFileSync(filePath, '{ not json');
+    expect(() => service.reload()).toThrow(WatchlistValidationError);
+    expect(service.getQueries()).toEqual(['BONK']);
+  });
+
+  it('should persist additions and removals to the file', async () => {
+    const service = new WatchlistService(filePath);
+    await service.replace({ queries: ['BONK'], mints: [] });
+
+    await service.addQueries(['WIF']);
+    await service.addMints([BONK]);
+    expect(await service.removeQuery('bonk')).toBe(true);
+    expect(await service.removeQuery('missing')).toBe(false);
+
+    const saved = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    expect(saved).toEqual({ queries: ['WIF'], mints: [BONK] });
+    expect(new WatchlistService(filePath).get()).toEqual(saved);
+  });
+
+  it('should reject invalid mint addresses', async () => {
+    const service = new WatchlistService(filePath);
+    await expect(service.addMints(['not-a-mint'])).rejects.toThrow(WatchlistValidationError);
+    await expect(service.replace({ queries: 'BONK' })).rejects.toThrow('"queries" must be');
+  });
+});
@@ -0,0 +1,436 @@
+import http from 'http';
+import { WebSocketService, UpdateStream } from '../websocket';
+import { roomFor } from '../rooms';
+import { cacheService } from '../cache';
+import { socketStub, token } from './helpers/fixtures';
+
+interface Received {
+  event: string;
+  data: { type?: string; sequence?: number };
+  eventId?: string;
+}
+
+function recorder(id: string): UpdateStream & { received: Received[] } {
+  const received: Received[] = [];
+  return {
+    id,
+    received,
+    send: (event, data, eventId) =>
+      received.push({ event, data: data as Received['data'], eventId }),
+  };
+}
+
+describe('WebSocketService streams', () => {
+  let service: WebSocketService;
+  let aggregateTokens: jest.SpyInstance;
+
+  beforeEach(() => {
+    service = new WebSocketService(http.createServer());
+    aggregateTokens = jest
+      .spyOn(service['aggregator'], 'aggregateTokens')
+      .mockResolvedValue([token('a'), token('b', { volume_sol: 50 })]);
+  });
+
+  afterEach(() => {
+    service.stop();
+  });
+
+  afterAll(async () => {
+    await cacheService.close();
+  });
+
+  it('should send a full update and then deltas with event ids', async () => {
+    const stream = recorder('sse:1');
+    await service.addStream(stream, { sort: { field: 'volume', order: 'desc' } });
+
+    aggregateTokens.mockResolvedValue([
+      token('a', { price_sol: 2 }),
+      token('b', { volume_sol: 50 }),
+    ]);
+    await service['refresh']();
+
+    const [full, delta] = stream.received;
+    expect(full.data).toMatchObject({ type: 'full', sequence: 1 });
+    expect(delta.data).toMatchObject({ type: 'delta', sequence: 2 });
+    expect(delta.eventId).toMatch(/:2$/);
+    expect(full.eventId?.split(':')[0]).toBe(delta.eventId?.split(':')[0]);
+  });
+
+  it('should replay missed deltas for a known event id and send a full update otherwise', async () => {
+    const first = recorder('sse:1');
+    await service.addStream(first, {});
+    const lastEventId = first.received[0].eventId;
+
+    aggregateTokens.mockResolvedValue([
+      token('a', { price_sol: 3 }),
+      token('b', { volume_sol: 50 }),
+    ]);
+    await service['refresh']();
+
+    const resumed = recorder('sse:2');
+    await service.addStream(resumed, {}, lastEventId);
+    expect(resumed.received.map((message) => message.data.type)).toEqual(['delta']);
+
+    const stale = recorder('sse:3');
+    await service.addStream(stale, {}, 'oldroom:1');
+    expect(stale.received.map((message) => message.data.type)).toEqual(['full']);
+  });
+
+  it("should broadcast alerts without the rule's webhook url", async () => {
+    const stream = recorder('sse:1');
+    await service.addStream(stream, {});
+    const broadcast = jest.spyOn(service['io'].sockets.adapter, 'broadcast');
+
+    service.broadcastAlerts([
+      {
+        rule: {
+          id: 'rule-1',
+          token_address: 'a',
+          metric: 'liquidity_sol',
+          operator: 'drops_by',
+          threshold: 30,
+          webhook_url: 'https://hooks.slack.com/services/T000/B000/secret',
+          baseline: 400,
+          created_at: 0,
+        },
+        token: token('a'),
+        value: 200,
+        triggered_at: 1000,
+      },
+    ]);
+
+    const alert = stream.received.find((message) => message.event === 'alert');
+    expect(alert?.data).toMatchObject({ rule: { id: 'rule-1', threshold: 30 }, value: 200 });
+    expect(broadcast).toHaveBeenCalledWith(
+      expect.objectContaining({ data: ['alert', alert?.data] }),
+      expect.anything()
+    );
+    expect(JSON.stringify(alert?.data)).not.toMatch(/webhook_url|baseline|hooks\.slack\.com/);
+  });
+
+  it('should release the room when the last stream leaves', async () => {
+    await service.addStream(recorder('sse:1'), {});
+    expect(service.getMetrics()).toMatchObject({ rooms: 1, streams: 1 });
+
+    service.removeStream('sse:1');
+    expect(service.getMetrics()).toMatchObject({ rooms: 0, streams: 0 });
+  });
+});
+
+describe('WebSocketService token subscriptions', () => {
+  // Base58 mints are case-sensitive upstream
+  const MINT = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+  let service: WebSocketService;
+  let getTokensByAddress: jest.SpyInstance;
+  let broadcast: jest.SpyInstance;
+
+  beforeEach(() => {
+    service = new WebSocketService(http.createServer());
+    getTokensByAddress = jest
+      .spyOn(service['aggregator'], 'getTokensByAddress')
+      .mockImplementation(async (addresses: string[]) =>
+        addresses.filter((address) => address === MINT).map((address) => token(address))
+      );
+    broadcast = jest.spyOn(service['io'].sockets.adapter, 'broadcast');
+  });
+
+  afterEach(() => {
+    service.stop();
+  });
+
+  it('should look tokens up with the casing the client sent', async () => {
+    const socket = socketStub('s1');
+    await service['subscribeTokens'](socket, [MINT, MINT.toLowerCase()]);
+
+    expect(getTokensByAddress).toHaveBeenCalledWith([MINT]);
+    expect(socket.join).toHaveBeenCalledWith(`token:${MINT.toLowerCase()}`);
+    expect(socket.emit).toHaveBeenCalledWith('token:subscribed', {
+      addresses: [MINT],
+      missing: [],
+    });
+    expect(socket.emit).toHaveBeenCalledWith(
+      'token:update',
+      expect.objectContaining({ token: expect.objectContaining({ token_address: MINT }) })
+    );
+  });
+
+  it('should push token:update only when a followed token changes', async () => {
+    await service['subscribeTokens'](socketStub('s1'), [MINT]);
+
+    await service['pushTokenUpdates']();
+    expect(broadcast).not.toHaveBeenCalled();
+
+    getTokensByAddress.mockResolvedValue([token(MINT, { price_sol: 2 })]);
+    await service['pushTokenUpdates']();
+    expect(getTokensByAddress).toHaveBeenLastCalledWith([MINT]);
+    expect(broadcast).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: [
+          'token:update',
+          expect.objectContaining({ token: expect.objectContaining({ price_sol: 2 }) }),
+        ],
+      }),
+      expect.objectContaining({ rooms: new Set([`token:${MINT.toLowerCase()}`]) })
+    );
+  });
+
+  it('should reject addresses that are not Solana mints', async () => {
+    const socket = socketStub('s1');
+    await service['subscribeTokens'](socket, [MINT, '../pools?x=1']);
+
+    expect(socket.emit).toHaveBeenCalledWith('error', {
+      message: expect.stringContaining('../pools?x=1'),
+    });
+    expect(socket.join).not.toHaveBeenCalled();
+    expect(getTokensByAddress).not.toHaveBeenCalled();
+  });
+
+  it('should cap the tokens followed across all connections', async () => {
+    // Distinct even when lowercased, like subscription keys
+    const digits = '123456789ABCDEFGHJKLMNPQRSTUVWXYZ';
+    const mint = (i: number) =>
+      `${digits[Math.floor(i / digits.length)]}${digits[i % digits.length]}${'1'.repeat(42)}`;
+
+    // 15 connections at the per-connection limit of 20 reach the default cap of 300
+    for (let i = 0; i < 15; i++) {
+      const addresses = Array.from({ length: 20 }, (_, j) => mint(i * 20 + j));
+      await service['subscribeTokens'](socketStub(`s${i}`), addresses);
+    }
+    expect(service['followedAddresses']().size).toBe(300);
+
+    const late = socketStub('late');
+    await service['subscribeTokens'](late, [mint(300)]);
+    expect(late.emit).toHaveBeenCalledWith('error', {
+      message: expect.stringContaining('as many tokens as it can'),
+    });
+
+    // Tokens someone already follows don't count against the cap
+    await service['subscribeTokens'](late, [mint(0)]);
+    expect(late.join).toHaveBeenCalledWith(`token:${mint(0).toLowerCase()}`);
+  });
+
+  it('should stop following a token once nobody is subscribed', async () => {
+    const socket = socketStub('s1');
+    await service['subscribeTokens'](socket, [MINT]);
+    service['unsubscribeTokens'](socket, MINT.toLowerCase());
+
+    expect(socket.leave).toHaveBeenCalledWith(`token:${MINT.toLowerCase()}`);
+    expect(service.getMetrics().followed_tokens).toBe(0);
+    getTokensByAddress.mockClear();
+    await service['pushTokenUpdates']();
+    expect(getTokensByAddress).not.toHaveBeenCalled();
+  });
+});
+
+describe('WebSocketService sockets', () => {
+  const MINT = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+  // Only token 'a' makes the page, so moving its price yields one delta
+  const preferences = { pagination: { limit: 1 } };
+  let service: WebSocketService;
+  let aggregateTokens: jest.SpyInstance;
+
+  function connect(id: string) {
+    const socket = socketStub(id);
+    service['io'].sockets.sockets.set(id, socket);
+    service['io'].sockets.listeners('connection').forEach((listener) => listener(socket));
+    return socket;
+  }
+
+  function disconnect(socket: ReturnType<typeof socketStub>) {
+    service['io'].sockets.sockets.delete(socket.id);
+    socket.receive('disconnect');
+  }
+
+  // Lets the handlers the service doesn't await finish
+  const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+  // 'tokens:update' messages sent to the socket itself rather than its room
+  function updates(socket: ReturnType<typeof socketStub>) {
+    return socket.emit.mock.calls
+      .filter(([event]) => event === 'tokens:update')
+      .map(([, update]) => update);
+  }
+
+  function sessionOf(socket: ReturnType<typeof socketStub>): string {
+    const [, subscribed] = socket.emit.mock.calls.find(([event]) => event === 'subscribed')!;
+    return subscribed.session;
+  }
+
+  async function tick(price: number) {
+    aggregateTokens.mockResolvedValue([
+      token('a', { price_sol: price }),
+      token('b', { volume_sol: 50 }),
+    ]);
+    await service['refresh']();
+  }
+
+  async function subscribed(id: string) {
+    const socket = connect(id);
+    socket.receive('subscribe', preferences);
+    socket.receive('subscribe:token', [MINT]);
+    await settle();
+    return socket;
+  }
+
+  beforeEach(() => {
+    service = new WebSocketService(http.createServer());
+    aggregateTokens = jest
+      .spyOn(service['aggregator'], 'aggregateTokens')
+      .mockResolvedValue([token('a'), token('b', { volume_sol: 50 })]);
+    jest
+      .spyOn(service['aggregator'], 'getTokensByAddress')
+      .mockImplementation(async (addresses: string[]) =>
+        addresses.map((address) => token(address))
+      );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    // The stubs can't be closed like real sockets
+    service['io'].sockets.sockets.clear();
+    service.stop();
+  });
+
+  describe('sessions', () => {
+    it('should rejoin the room and replay only the deltas after the resumed sequence', async () => {
+      const first = await subscribed('s1');
+      const session = sessionOf(first);
+      disconnect(first);
+
+      // Sequence 1 was the full update on subscribing
+      await tick(2);
+      await tick(3);
+
+      const second = connect('s2');
+      second.receive('resume', { session, sequence: 1 });
+      await settle();
+
+      expect(second.join).toHaveBeenCalledWith(roomFor(preferences));
+      expect(second.emit).toHaveBeenCalledWith('resumed', {
+        resumed: true,
+        session,
+        preferences,
+      });
+      expect(updates(second)).toEqual([
+        expect.objectContaining({ type: 'delta', sequence: 2 }),
+        expect.objectContaining({ type: 'delta', sequence: 3 }),
+      ]);
+    });
+
+    it('should send a full update when the missed deltas are no longer buffered', async () => {
+      const first = await subscribed('s1');
+      const session = sessionOf(first);
+      disconnect(first);
+
+      // One more delta than WEBSOCKET_REPLAY_BUFFER holds
+      for (let price = 2; price <= 102; price++) {
+        await tick(price);
+      }
+
+      const second = connect('s2');
+      second.receive('resume', { session, sequence: 1 });
+      await settle();
+
+      expect(updates(second)).toEqual([expect.objectContaining({ type: 'full', sequence: 102 })]);
+    });
+
+    it('should restore token subscriptions', async () => {
+      const first = await subscribed('s1');
+      const session = sessionOf(first);
+      disconnect(first);
+
+      const second = connect('s2');
+      second.receive('resume', { session, sequence: 1 });
+      await settle();
+
+      expect(second.join).toHaveBeenCalledWith(`token:${MINT.toLowerCase()}`);
+      expect(second.emit).toHaveBeenCalledWith('token:subscribed', {
+        addresses: [MINT],
+        missing: [],
+      });
+    });
+
+    it('should take the session over from a connection that is still open', async () => {
+      const first = await subscribed('s1');
+      const session = sessionOf(first);
+
+      const second = connect('s2');
+      second.receive('resume', { session, sequence: 1 });
+      await settle();
+
+      expect(first.disconnect).toHaveBeenCalledWith(true);
+      expect(second.emit).toHaveBeenCalledWith('token:subscribed', {
+        addresses: [MINT],
+        missing: [],
+      });
+
+      // The old connection closing afterwards leaves the session with the new one
+      disconnect(first);
+      expect(service.getMetrics()).toMatchObject({ clients: 1, sessions: 1, followed_tokens: 1 });
+      expect(service['socketSessions'].get('s2')?.id).toBe(session);
+    });
+
+    it('should keep the room of a detached session until the session expires', async () => {
+      const first = await subscribed('s1');
+      disconnect(first);
+      expect(service.getMetrics()).toMatchObject({ clients: 0, rooms: 1, sessions: 1 });
+
+      // The room keeps being updated for the client to catch up from
+      await tick(2);
+      expect(service['rooms'].get(roomFor(preferences))?.sequence).toBe(2);
+
+      jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 121 * 1000);
+      await service['refresh']();
+      expect(service.getMetrics()).toMatchObject({ rooms: 0, sessions: 0 });
+    });
+  });
+
+  describe('view rooms', () => {
+    const other = { sort: { field: 'liquidity' as const, order: 'desc' as const } };
+
+    it('should compute each view once per refresh, however many sockets share it', async () => {
+      const sockets = ['s1', 's2', 's3'].map((id) => connect(id));
+      sockets.forEach((socket) => socket.receive('subscribe', preferences));
+      connect('s4').receive('subscribe', other);
+      await settle();
+      const broadcast = jest.spyOn(service['io'].sockets.adapter, 'broadcast');
+      const paginate = jest.spyOn(service['aggregator'], 'paginateTokens');
+
+      await tick(2);
+
+      // Once for each of the two views, not once per socket
+      expect(paginate).toHaveBeenCalledTimes(2);
+      // And each delta goes out once, to the whole room
+      const deltas = broadcast.mock.calls.filter(([packet]) => packet.data[0] === 'tokens:update');
+      expect(deltas.map(([, options]) => Array.from(options.rooms))).toEqual(
+        expect.arrayContaining([[roomFor(preferences)], [roomFor(other)]])
+      );
+      expect(deltas).toHaveLength(2);
+      expect(service.getMetrics()).toMatchObject({ rooms: 2, largest_room: 3 });
+    });
+
+    it('should send members that joined since the last update a full update instead of the delta', async () => {
+      const member = connect('s1');
+      await service['refresh']();
+      const joined = connect('s2');
+      const broadcast = jest.spyOn(service['io'].sockets.adapter, 'broadcast');
+
+      await tick(2);
+
+      const [[packet, options]] = broadcast.mock.calls;
+      expect(packet.data).toEqual([
+        'tokens:update',
+        expect.objectContaining({ type: 'delta', sequence: 2 }),
+      ]);
+      expect(options.except).toEqual(new Set(['s2']));
+      expect(updates(joined)).toEqual([expect.objectContaining({ type: 'full', sequence: 2 })]);
+      expect(updates(member)).toEqual([]);
+
+      // After that it gets the room's deltas like everyone else
+      broadcast.mockClear();
+      await tick(3);
+      expect(broadcast.mock.calls[0][1].except).toEqual(new Set());
+      expect(updates(joined)).toHaveLength(1);
+    });
+  });
+});
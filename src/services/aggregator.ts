@@ -1,44 +1,64 @@
-import { Token, FilterOptions, SortOptions, PaginationOptions } from '../types/token';
-import { DexScreenerClient } from './dex/dexscreener';
-import { JupiterClient } from './dex/jupiter';
+import { Token } from '../types/token';
+import { FilterOptions, SortOptions, PaginationOptions, TimePeriod } from '../types/options';
+import { SourceRegistry, sourceRegistry } from './dex/registry';
 import { cacheService } from './cache';
+import { ConsensusMerger } from './consensus';
+import { RiskScorer } from './risk';
+import { AnomalyDetector } from './anomalies';
 import logger from '../utils/logger';
 
 const MAX_AGGREGATED_TOKENS = parseInt(process.env.MAX_AGGREGATED_TOKENS || '200', 10);
+// Seconds an address no source knows stays cached as missing
+const LOOKUP_MISS_TTL = parseInt(process.env.TOKEN_LOOKUP_MISS_TTL || '300', 10);
+
+const PRICE_CHANGE_FIELDS: Record<TimePeriod, keyof Token> = {
+  '5m': 'price_5m_change',
+  '1h': 'price_1hr_change',
+  '6h': 'price_6hr_change',
+  '24h': 'price_24hr_change',
+  '7d': 'price_7d_change',
+};
+
+// No source reports 7d volume, so that window sorts by 24h volume
+const VOLUME_FIELDS: Record<TimePeriod, keyof Token> = {
+  '5m': 'volume_5m_sol',
+  '1h': 'volume_1hr_sol',
+  '6h': 'volume_6hr_sol',
+  '24h': 'volume_sol',
+  '7d': 'volume_sol',
+};
 
 export class TokenAggregator {
-  private dexscreener: DexScreenerClient;
-  private jupiter?: JupiterClient;
-  private enableJupiter: boolean;
-
-  constructor() {
-    this.dexscreener = new DexScreenerClient();
-    this.enableJupiter = process.env.ENABLE_JUPITER !== 'false';
-
-    if (this.enableJupiter) {
-      this.jupiter = new JupiterClient();
-    } else {
-      logger.info('Jupiter source disabled via ENABLE_JUPITER flag');
-    }
+  private registry: SourceRegistry;
+  private merger: ConsensusMerger;
+  private riskScorer: RiskScorer;
+  private anomalyDetector: AnomalyDetector;
+  private pendingLookups = new Map<string, Promise<Token | null>>(); // Lowercased address -> lookup
+
+  constructor(
+    registry: SourceRegistry = sourceRegistry,
+    anomalyDetector: AnomalyDetector = new AnomalyDetector()
+  ) {
+    this.registry = registry;
+    this.merger = new ConsensusMerger((source) => this.registry.getWeight(source));
+    this.riskScorer = new RiskScorer();
+    this.anomalyDetector = anomalyDetector;
+  }
+
+  getRegistry(): SourceRegistry {
+    return this.registry;
   }
 
   async aggregateTokens(): Promise<Token[]> {
     const cacheKey = cacheService.generateKey('tokens', 'aggregated');
     
-    return cacheService.getOrSet(
+    const tokens = await cacheService.getOrSet(
       cacheKey,
       async () => {
         logger.info('Fetching tokens from multiple DEX sources...');
         
-        const sources: { name: string; fetch: () => Promise<Token[]> }[] = [
-          { name: 'DexScreener', fetch: () => this.dexscreener.getPopularTokens() },
-        ];
-
-        if (this.enableJupiter && this.jupiter) {
-          sources.push({ name: 'Jupiter', fetch: () => this.jupiter!.getPopularTokens() });
-        }
-
-        const results = await Promise.allSettled(sources.map((src) => src.fetch()));
+        const sources = this.registry.getEnabled().map((entry) => entry.source);
+        const results = await Promise.allSettled(sources.map((src) => src.getPopularTokens()));
 
         const aggregatedTokens = results.flatMap((result, index) => {
           const sourceName = sources[index].name;
@@ -62,29 +82,152 @@ export class TokenAggregator {
           `Merged into ${merged.length} unique tokens (returning ${limited.length}) from ${sources.length} source(s)`
         );
 
-        return limited;
+        return this.anomalyDetector.annotate(limited);
       },
       30 // 30 second cache TTL
     );
+
+    return this.withDerivedFields(tokens);
   }
 
-  private mergeTokens(tokens: Token[]): Token[] {
-    const tokenMap = new Map<string, Token>();
+  /**
+   * Looks tokens up by address. Addresses in the aggregate are served from
+   * it; the rest are fetched from sources that look addresses up in batches,
+   * so callers can follow tokens that fall outside the aggregated list.
+   * Addresses no source knows are left out.
+   */
+  async getTokensByAddress(addresses: string[]): Promise<Token[]> {
+    const aggregated = await this.aggregateTokens();
+    const byAddress = new Map(
+      aggregated.map((token) => [token.token_address.toLowerCase(), token])
+    );
 
-    for (const token of tokens) {
-      const key = token.token_address.toLowerCase();
-      const existing = tokenMap.get(key);
+    const found: Token[] = [];
+    const missing: string[] = [];
+    for (const address of addresses) {
+      const token = byAddress.get(address.toLowerCase());
+      if (token) {
+        found.push(token);
+      } else {
+        missing.push(address);
+      }
+    }
+
+    const lookedUp = await this.lookupTokens(missing);
+    return [...found, ...this.withDerivedFields(lookedUp)];
+  }
 
-      if (!existing) {
-        tokenMap.set(key, { ...token });
+  private lookupKey(address: string): string {
+    return cacheService.generateKey('tokens', 'address', address.toLowerCase());
+  }
+
+  // Serves cached lookups and fetches the rest in one batch; addresses already
+  // being fetched for another caller wait for that fetch
+  private async lookupTokens(addresses: string[]): Promise<Token[]> {
+    const cached = await Promise.all(
+      addresses.map((address) => cacheService.get<{ token: Token | null }>(this.lookupKey(address)))
+    );
+
+    const lookups: Promise<Token | null>[] = [];
+    const uncached: string[] = [];
+    addresses.forEach((address, index) => {
+      const hit = cached[index];
+      const pending = this.pendingLookups.get(address.toLowerCase());
+      if (hit) {
+        lookups.push(Promise.resolve(hit.token));
+      } else if (pending) {
+        lookups.push(pending);
       } else {
-        // Merge strategy: prefer data from source with more complete information
-        const merged = this.mergeTokenData(existing, token);
-        tokenMap.set(key, merged);
+        uncached.push(address);
       }
+    });
+
+    if (uncached.length > 0) {
+      const fetched = this.fetchTokens(uncached);
+      for (const address of uncached) {
+        const lookup = fetched.then((tokens) => tokens.get(address.toLowerCase()) || null);
+        this.pendingLookups.set(address.toLowerCase(), lookup);
+        lookups.push(lookup);
+      }
+    }
+
+    const tokens = await Promise.all(lookups);
+    return tokens.filter((token): token is Token => token !== null);
+  }
+
+  /**
+   * Fetches addresses from every source with a batched lookup and caches
+   * each one, with "no source knows this token" cached for longer. Sources
+   * that only look up one address per request, like GeckoTerminal with its
+   * tight rate limit, aren't asked.
+   */
+  private async fetchTokens(addresses: string[]): Promise<Map<string, Token>> {
+    try {
+      const sources = this.registry
+        .getEnabled()
+        .map((entry) => entry.source)
+        .filter((src) => src.capabilities.tokenLookup && src.getTokensData);
+      const results = await Promise.allSettled(sources.map((src) => src.getTokensData!(addresses)));
+
+      const requested = new Set(addresses.map((address) => address.toLowerCase()));
+      const tokens = results.flatMap((result, index) => {
+        if (result.status === 'fulfilled') {
+          return result.value;
+        }
+        logger.error(
+          `${sources[index].name} lookup of ${addresses.length} address(es) failed:`,
+          result.reason
+        );
+        return [];
+      });
+      const merged = await this.anomalyDetector.annotate(
+        this.mergeTokens(tokens.filter((t) => requested.has(t.token_address.toLowerCase())))
+      );
+
+      const found = new Map(merged.map((token) => [token.token_address.toLowerCase(), token]));
+      // A source that failed may know the tokens the others didn't, so only
+      // misses every source answered for are kept for long
+      const allAnswered = results.every((result) => result.status === 'fulfilled');
+      const missTtl = allAnswered ? LOOKUP_MISS_TTL : 30;
+      await Promise.all(
+        addresses.map((address) => {
+          const token = found.get(address.toLowerCase()) || null;
+          // Same TTL as the aggregate for tokens found
+          return cacheService.set(this.lookupKey(address), { token }, token ? 30 : missTtl);
+        })
+      );
+      return found;
+    } catch (error) {
+      logger.error(`Lookup of ${addresses.length} address(es) failed:`, error);
+      return new Map();
+    } finally {
+      addresses.forEach((address) => this.pendingLookups.delete(address.toLowerCase()));
+    }
+  }
+
+  // Age changes every second, so it (and the risk score that depends on it)
+  // is derived after the cache rather than stored in it
+  private withDerivedFields(tokens: Token[]): Token[] {
+    const now = Date.now();
+    return tokens.map((token) =>
+      this.riskScorer.score(
+        token.created_at === undefined
+          ? token
+          : { ...token, age_seconds: Math.max(0, Math.floor((now - token.created_at) / 1000)) }
+      )
+    );
+  }
+
+  private mergeTokens(tokens: Token[]): Token[] {
+    const groups = new Map<string, Token[]>();
+
+    for (const token of tokens) {
+      const key = token.token_address.toLowerCase();
+      groups.set(key, [...(groups.get(key) || []), token]);
     }
 
-    return Array.from(tokenMap.values());
+    // Each address is resolved by price consensus across the sources that reported it
+    return Array.from(groups.values()).map((group) => this.merger.merge(group));
   }
 
   private limitTokens(tokens: Token[]): Token[] {
@@ -97,46 +240,11 @@ export class TokenAggregator {
       .slice(0, MAX_AGGREGATED_TOKENS);
   }
 
-  private mergeTokenData(token1: Token, token2: Token): Token {
-    // Prefer token with more complete data (higher volume, liquidity, etc.)
-    const score1 = this.calculateDataCompleteness(token1);
-    const score2 = this.calculateDataCompleteness(token2);
-
-    const primary = score1 >= score2 ? token1 : token2;
-    const secondary = score1 >= score2 ? token2 : token1;
-
-    return {
-      ...primary,
-      // Merge sources
-      source: `${primary.source},${secondary.source}`,
-      // Use best available data
-      volume_sol: Math.max(primary.volume_sol, secondary.volume_sol),
-      liquidity_sol: Math.max(primary.liquidity_sol, secondary.liquidity_sol),
-      market_cap_sol: primary.market_cap_sol || secondary.market_cap_sol,
-      transaction_count: Math.max(primary.transaction_count, secondary.transaction_count),
-      // Prefer more recent price
-      price_sol: primary.last_updated && secondary.last_updated
-        ? (primary.last_updated > secondary.last_updated ? primary.price_sol : secondary.price_sol)
-        : primary.price_sol,
-    };
-  }
-
-  private calculateDataCompleteness(token: Token): number {
-    let score = 0;
-    if (token.volume_sol > 0) score += 3;
-    if (token.liquidity_sol > 0) score += 2;
-    if (token.market_cap_sol > 0) score += 2;
-    if (token.transaction_count > 0) score += 1;
-    if (token.price_1hr_change !== undefined) score += 1;
-    if (token.price_24hr_change !== undefined) score += 1;
-    return score;
-  }
-
   filterTokens(tokens: Token[], options: FilterOptions): Token[] {
     let filtered = [...tokens];
 
     if (options.timePeriod) {
-      const changeField = `price_${options.timePeriod}_change` as keyof Token;
+      const changeField = PRICE_CHANGE_FIELDS[options.timePeriod];
       filtered = filtered.filter((token) => {
         const change = token[changeField] as number | undefined;
         return change !== undefined;
@@ -151,6 +259,32 @@ export class TokenAggregator {
       filtered = filtered.filter((token) => token.liquidity_sol >= options.minLiquidity!);
     }
 
+    if (options.minAge !== undefined) {
+      filtered = filtered.filter(
+        (token) => token.age_seconds !== undefined && token.age_seconds >= options.minAge!
+      );
+    }
+
+    if (options.maxAge !== undefined) {
+      filtered = filtered.filter(
+        (token) => token.age_seconds !== undefined && token.age_seconds <= options.maxAge!
+      );
+    }
+
+    if (options.maxRisk !== undefined) {
+      filtered = filtered.filter(
+        (token) => token.risk_score !== undefined && token.risk_score <= options.maxRisk!
+      );
+    }
+
+    if (options.excludeAnomalies) {
+      filtered = filtered.filter((token) => !token.anomaly_flags?.length);
+    }
+
+    if (options.anomaly) {
+      filtered = filtered.filter((token) => token.anomaly_flags?.includes(options.anomaly!));
+    }
+
     if (options.protocol) {
       filtered = filtered.filter((token) =>
         token.protocol.toLowerCase().includes(options.protocol!.toLowerCase())
@@ -163,18 +297,25 @@ export class TokenAggregator {
   sortTokens(tokens: Token[], options: SortOptions): Token[] {
     const sorted = [...tokens];
 
+    const period = options.timePeriod;
+
     sorted.sort((a, b) => {
       let aValue: number;
       let bValue: number;
 
       switch (options.field) {
         case 'volume':
-          aValue = a.volume_sol;
-          bValue = b.volume_sol;
+          aValue = period ? ((a[VOLUME_FIELDS[period]] as number | undefined) ?? 0) : a.volume_sol;
+          bValue = period ? ((b[VOLUME_FIELDS[period]] as number | undefined) ?? 0) : b.volume_sol;
           break;
         case 'price_change':
-          aValue = a.price_24hr_change || a.price_1hr_change || 0;
-          bValue = b.price_24hr_change || b.price_1hr_change || 0;
+          // Without a period, fall back to whichever of 24h/1h is available
+          aValue = period
+            ? ((a[PRICE_CHANGE_FIELDS[period]] as number | undefined) ?? 0)
+            : a.price_24hr_change || a.price_1hr_change || 0;
+          bValue = period
+            ? ((b[PRICE_CHANGE_FIELDS[period]] as number | undefined) ?? 0)
+            : b.price_24hr_change || b.price_1hr_change || 0;
           break;
         case 'market_cap':
           aValue = a.market_cap_sol;
@@ -188,6 +329,10 @@ export class TokenAggregator {
           aValue = a.transaction_count;
           bValue = b.transaction_count;
           break;
+        case 'buy_sell_ratio':
+          aValue = a.buy_sell_ratio ?? 0;
+          bValue = b.buy_sell_ratio ?? 0;
+          break;
         default:
           return 0;
       }
@@ -0,0 +1,449 @@
+import crypto from 'crypto';
+import dns from 'dns';
+import net from 'net';
+import axios, { AxiosInstance } from 'axios';
+import { Token } from '../types/token';
+import { TimePeriod } from '../types/options';
+import { CacheService, cacheService } from './cache';
+import { stripProvenance } from './consensus';
+import { retryWithBackoff } from '../utils/retry';
+import logger from '../utils/logger';
+
+const WEBHOOK_SECRET = process.env.ALERT_WEBHOOK_SECRET || '';
+const WEBHOOK_TIMEOUT_MS = parseInt(process.env.ALERT_WEBHOOK_TIMEOUT_MS || '5000', 10);
+const WEBHOOK_RETRIES = parseInt(process.env.ALERT_WEBHOOK_RETRIES || '3', 10);
+const MAX_RULES = parseInt(process.env.ALERT_MAX_RULES || '500', 10);
+
+const RULES_KEY = 'alerts:rules';
+
+// Webhooks must not reach the server's own network: loopback, private,
+// link-local (cloud metadata), carrier-grade NAT, multicast and reserved ranges
+const PRIVATE_ADDRESSES = new net.BlockList();
+for (const [address, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.168.0.0', 16],
+  ['224.0.0.0', 3],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(address, prefix, 'ipv4');
+}
+for (const [address, prefix] of [
+  ['::', 127], // Unspecified and loopback
+  ['fc00::', 7], // Unique local
+  ['fe80::', 10], // Link-local
+  ['ff00::', 8], // Multicast
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(address, prefix, 'ipv6');
+}
+
+export type AlertMetric =
+  | 'price_sol'
+  | 'price_change'
+  | 'volume_sol'
+  | 'liquidity_sol'
+  | 'market_cap_sol';
+
+// above/below fire as soon as the condition holds; crosses_* need to have
+// seen the other side first; drops_by/rises_by are percentages relative to
+// the value when the rule was first evaluated
+export type AlertOperator =
+  | 'above'
+  | 'below'
+  | 'crosses_above'
+  | 'crosses_below'
+  | 'drops_by'
+  | 'rises_by';
+
+export const ALERT_METRICS: AlertMetric[] = [
+  'price_sol',
+  'price_change',
+  'volume_sol',
+  'liquidity_sol',
+  'market_cap_sol',
+];
+export const ALERT_OPERATORS: AlertOperator[] = [
+  'above',
+  'below',
+  'crosses_above',
+  'crosses_below',
+  'drops_by',
+  'rises_by',
+];
+
+const PRICE_CHANGE_FIELDS: Record<TimePeriod, keyof Token> = {
+  '5m': 'price_5m_change',
+  '1h': 'price_1hr_change',
+  '6h': 'price_6hr_change',
+  '24h': 'price_24hr_change',
+  '7d': 'price_7d_change',
+};
+
+export interface AlertRule {
+  id: string;
+  token_address: string;
+  metric: AlertMetric;
+  operator: AlertOperator;
+  threshold: number; // Metric value, or a percentage for drops_by/rises_by
+  window?: TimePeriod; // Price change window, only for the price_change metric
+  webhook_url?: string;
+  baseline?: number; // Reference value for drops_by/rises_by, set on first evaluation
+  created_at: number;
+}
+
+// A rule as unauthenticated clients see it: webhook URLs work as credentials for
+// services like Slack and Discord, so they only leave in the signed webhook body
+export type PublicAlertRule = Omit<AlertRule, 'webhook_url' | 'baseline'>;
+
+export interface AlertTrigger {
+  rule: AlertRule;
+  token: Token;
+  value: number; // Metric value that met the condition
+  triggered_at: number;
+}
+
+export class AlertValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AlertValidationError';
+  }
+}
+
+/**
+ * Stores alert rules and evaluates them against each aggregation refresh.
+ * Rules live in a Redis hash when Redis is available and are always kept in
+ * memory as a fallback, like CacheService. A rule fires when its condition
+ * turns true and re-arms once it turns false again, so a price sitting above
+ * its threshold doesn't trigger on every refresh.
+ */
+export class AlertService {
+  private cache: CacheService;
+  private rules = new Map<string, AlertRule>();
+  private conditionState = new Map<string, boolean>();
+  private webhookSecret: string;
+  private http: AxiosInstance;
+
+  constructor(cache: CacheService = cacheService, webhookSecret: string = WEBHOOK_SECRET) {
+    this.cache = cache;
+    this.webhookSecret = webhookSecret;
+    this.http = axios.create({
+      timeout: WEBHOOK_TIMEOUT_MS,
+      maxRedirects: 0, // A redirect could point anywhere, including our own network
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+
+  async list(): Promise<AlertRule[]> {
+    const redis = this.cache.getRedisClient();
+    if (redis) {
+      try {
+        const stored = await redis.hgetall(RULES_KEY);
+        return Object.values(stored)
+          .map((value) => JSON.parse(value) as AlertRule)
+          .sort((a, b) => a.created_at - b.created_at);
+      } catch (error) {
+        logger.debug('Redis alert rule read failed, using memory:', error);
+      }
+    }
+
+    return Array.from(this.rules.values());
+  }
+
+  async get(id: string): Promise<AlertRule | null> {
+    return (await this.list()).find((rule) => rule.id === id) || null;
+  }
+
+  async create(input: unknown): Promise<AlertRule> {
+    if ((await this.list()).length >= MAX_RULES) {
+      throw new AlertValidationError(`Rule limit of ${MAX_RULES} reached`);
+    }
+
+    const rule: AlertRule = {
+      ...this.normalize(input),
+      id: crypto.randomUUID(),
+      created_at: Date.now(),
+    };
+    await this.save(rule);
+    logger.info(
+      `Alert rule ${rule.id} created: ${rule.token_address} ${rule.metric} ${rule.operator} ${rule.threshold}`
+    );
+    return rule;
+  }
+
+  async remove(id: string): Promise<boolean> {
+    const existed = (await this.get(id)) !== null;
+    this.rules.delete(id);
+    this.conditionState.delete(id);
+
+    const redis = this.cache.getRedisClient();
+    if (redis) {
+      try {
+        await redis.hdel(RULES_KEY, id);
+      } catch (error) {
+        logger.debug(`Redis alert rule delete failed for ${id}:`, error);
+      }
+    }
+    return existed;
+  }
+
+  async evaluate(tokens: Token[], now: number = Date.now()): Promise<AlertTrigger[]> {
+    const byAddress = new Map(tokens.map((token) => [token.token_address.toLowerCase(), token]));
+    const triggers: AlertTrigger[] = [];
+
+    for (const rule of await this.list()) {
+      const token = byAddress.get(rule.token_address.toLowerCase());
+      const value = token ? this.metricValue(token, rule) : undefined;
+      if (!token || value === undefined || !isFinite(value)) {
+        continue;
+      }
+
+      if (
+        (rule.operator === 'drops_by' || rule.operator === 'rises_by') &&
+        rule.baseline === undefined
+      ) {
+        await this.save({ ...rule, baseline: value });
+        this.conditionState.set(rule.id, false);
+        continue;
+      }
+
+      const previous = this.conditionState.get(rule.id);
+      const current = this.conditionMet(rule, value);
+      this.conditionState.set(rule.id, current);
+
+      // Crossings need a previous observation on the other side of the threshold
+      const armed = rule.operator.startsWith('crosses_') ? previous === false : previous !== true;
+      if (current && armed) {
+        triggers.push({ rule, token, value, triggered_at: now });
+      }
+    }
+
+    if (triggers.length > 0) {
+      logger.info(`${triggers.length} alert rule(s) triggered`);
+    }
+    return triggers;
+  }
+
+  /**
+   * Posts each trigger to its rule's webhook. The body is signed with
+   * HMAC-SHA256 over "<timestamp>.<body>" in the X-Alert-Signature header,
+   * so nothing is sent without ALERT_WEBHOOK_SECRET. The host is resolved
+   * again before every delivery, since its DNS may have changed to a private
+   * address after the rule was created. Failed deliveries are logged, never
+   * thrown, so one broken endpoint can't hold up the others.
+   */
+  async deliverWebhooks(triggers: AlertTrigger[]): Promise<void> {
+    const withWebhooks = triggers.filter((trigger) => trigger.rule.webhook_url);
+    if (withWebhooks.length > 0 && !this.webhookSecret) {
+      logger.warn(
+        `Skipping ${withWebhooks.length} alert webhook(s): ALERT_WEBHOOK_SECRET is not set`
+      );
+      return;
+    }
+
+    await Promise.all(
+      withWebhooks.map(async (trigger) => {
+        const url = trigger.rule.webhook_url!;
+        const body = JSON.stringify(this.toPayload(trigger));
+        const timestamp = String(Date.now());
+        const headers: Record<string, string> = {
+          'X-Alert-Timestamp': timestamp,
+          'X-Alert-Signature': `sha256=${signPayload(this.webhookSecret, timestamp, body)}`,
+        };
+
+        try {
+          if (!(await this.resolvesToPublicAddress(url))) {
+            logger.error(
+              `Alert webhook ${url} for rule ${trigger.rule.id} resolves to a private address, not delivered`
+            );
+            return;
+          }
+          await retryWithBackoff(() => this.http.post(url, body, { headers }), {
+            maxRetries: WEBHOOK_RETRIES,
+            baseDelay: 1000,
+          });
+        } catch (error) {
+          logger.error(
+            `Alert webhook delivery to ${url} failed for rule ${trigger.rule.id}:`,
+            error instanceof Error ? error.message : error
+          );
+        }
+      })
+    );
+  }
+
+  toPayload(trigger: AlertTrigger) {
+    const [token] = stripProvenance([trigger.token]);
+    return {
+      rule: trigger.rule,
+      token,
+      value: trigger.value,
+      triggered_at: trigger.triggered_at,
+    };
+  }
+
+  // The 'alert' event every Socket.IO, SSE and /ws client receives
+  toPublicPayload(trigger: AlertTrigger) {
+    const { id, token_address, metric, operator, threshold, window, created_at } = trigger.rule;
+    const rule: PublicAlertRule = {
+      id,
+      token_address,
+      metric,
+      operator,
+      threshold,
+      window,
+      created_at,
+    };
+    return { ...this.toPayload(trigger), rule };
+  }
+
+  private async resolvesToPublicAddress(url: string): Promise<boolean> {
+    const addresses = await dns.promises.lookup(hostnameOf(url), { all: true });
+    return addresses.length > 0 && addresses.every(({ address }) => !isPrivateAddress(address));
+  }
+
+  private metricValue(token: Token, rule: AlertRule): number | undefined {
+    if (rule.metric === 'price_change') {
+      return token[PRICE_CHANGE_FIELDS[rule.window || '1h']] as number | undefined;
+    }
+    return token[rule.metric];
+  }
+
+  private conditionMet(rule: AlertRule, value: number): boolean {
+    switch (rule.operator) {
+      case 'above':
+      case 'crosses_above':
+        return value > rule.threshold;
+      case 'below':
+      case 'crosses_below':
+        return value < rule.threshold;
+      case 'drops_by':
+        return value <= rule.baseline! * (1 - rule.threshold / 100);
+      case 'rises_by':
+        return value >= rule.baseline! * (1 + rule.threshold / 100);
+    }
+  }
+
+  private async save(rule: AlertRule): Promise<void> {
+    this.rules.set(rule.id, rule);
+
+    const redis = this.cache.getRedisClient();
+    if (redis) {
+      try {
+        await redis.hset(RULES_KEY, rule.id, JSON.stringify(rule));
+      } catch (error) {
+        logger.debug(`Redis alert rule write failed for ${rule.id}, kept in memory:`, error);
+      }
+    }
+  }
+
+  private normalize(input: unknown): Omit<AlertRule, 'id' | 'created_at'> {
+    if (!input || typeof input !== 'object') {
+      throw new AlertValidationError('Alert rule must be an object');
+    }
+
+    const { token_address, metric, operator, threshold, window, webhook_url } = input as Record<
+      string,
+      unknown
+    >;
+
+    if (typeof token_address !== 'string' || !token_address.trim()) {
+      throw new AlertValidationError('"token_address" is required');
+    }
+    if (!ALERT_METRICS.includes(metric as AlertMetric)) {
+      throw new AlertValidationError(`"metric" must be one of: ${ALERT_METRICS.join(', ')}`);
+    }
+    if (!ALERT_OPERATORS.includes(operator as AlertOperator)) {
+      throw new AlertValidationError(`"operator" must be one of: ${ALERT_OPERATORS.join(', ')}`);
+    }
+    if (typeof threshold !== 'number' || !isFinite(threshold)) {
+      throw new AlertValidationError('"threshold" must be a number');
+    }
+    if ((operator === 'drops_by' || operator === 'rises_by') && threshold <= 0) {
+      throw new AlertValidationError(`"threshold" for ${operator} must be a positive percentage`);
+    }
+    if (window !== undefined) {
+      if (metric !== 'price_change') {
+        throw new AlertValidationError('"window" only applies to the price_change metric');
+      }
+      if (
+        typeof window !== 'string' ||
+        !Object.prototype.hasOwnProperty.call(PRICE_CHANGE_FIELDS, window)
+      ) {
+        throw new AlertValidationError(
+          `"window" must be one of: ${Object.keys(PRICE_CHANGE_FIELDS).join(', ')}`
+        );
+      }
+    }
+    if (webhook_url !== undefined) {
+      if (!isHttpUrl(webhook_url)) {
+        throw new AlertValidationError('"webhook_url" must be an http(s) URL');
+      }
+      if (isPrivateHost(hostnameOf(webhook_url))) {
+        throw new AlertValidationError(
+          '"webhook_url" must not point to a private or local address'
+        );
+      }
+      if (!this.webhookSecret) {
+        throw new AlertValidationError(
+          '"webhook_url" needs ALERT_WEBHOOK_SECRET to be set on the server, webhooks are always signed'
+        );
+      }
+    }
+
+    return {
+      token_address: token_address.trim(),
+      metric: metric as AlertMetric,
+      operator: operator as AlertOperator,
+      threshold,
+      window: metric === 'price_change' ? ((window as TimePeriod) ?? '1h') : undefined,
+      webhook_url: webhook_url as string | undefined,
+    };
+  }
+}
+
+export function signPayload(secret: string, timestamp: string, body: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+function isHttpUrl(value: unknown): value is string {
+  if (typeof value !== 'string') {
+    return false;
+  }
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+// Brackets of IPv6 literals are dropped so the address can be checked
+function hostnameOf(url: string): string {
+  return new URL(url).hostname.replace(/^\[|\]$/g, '');
+}
+
+export function isPrivateAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 4) {
+    return PRIVATE_ADDRESSES.check(address, 'ipv4');
+  }
+  if (family === 6) {
+    // IPv4-mapped addresses (::ffff:127.0.0.1) reach the IPv4 host
+    const mapped = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+    return mapped ? isPrivateAddress(mapped[1]) : PRIVATE_ADDRESSES.check(address, 'ipv6');
+  }
+  return false;
+}
+
+// Names are only resolved at delivery; here the obvious local ones and IP literals are caught
+function isPrivateHost(hostname: string): boolean {
+  const name = hostname.toLowerCase().replace(/\.$/, '');
+  return name === 'localhost' || name.endsWith('.localhost') || isPrivateAddress(name);
+}
+
+export const alertService = new AlertService();
@@ -0,0 +1,128 @@
+import { Token } from '../types/token';
+import { AnomalyFlag } from '../types/options';
+import { SnapshotStore, snapshotStore } from './history';
+
+// Average 24h trade size (SOL) outside this range is implausible for a meme coin
+const MAX_VOLUME_PER_TXN = parseFloat(process.env.ANOMALY_MAX_VOLUME_PER_TXN || '50');
+const MIN_VOLUME_PER_TXN = parseFloat(process.env.ANOMALY_MIN_VOLUME_PER_TXN || '0.001');
+// Rolling 24h volume growing by this factor within the spike window, with flat liquidity
+const SPIKE_RATIO = parseFloat(process.env.ANOMALY_SPIKE_RATIO || '3');
+// Buys and sells within this fraction of each other count as symmetric
+const SYMMETRY_TOLERANCE = parseFloat(process.env.ANOMALY_SYMMETRY_TOLERANCE || '0.02');
+
+const SPIKE_WINDOW_MS = 60 * 60 * 1000;
+// Liquidity growing less than this during a spike doesn't explain it
+const MATCHING_LIQUIDITY_GROWTH = 1.1;
+// Without history, 24h volume above this multiple of liquidity is a spike on its own
+const MAX_TURNOVER = 50;
+const MIN_TRADES_FOR_SIZE_CHECK = 20;
+const MIN_TRADES_FOR_SYMMETRY = 200;
+
+export interface AnomalyEvent {
+  token: Token;
+  flags: AnomalyFlag[]; // Flags raised since the previous refresh
+}
+
+/**
+ * Flags volume that looks manufactured: trade sizes no real market produces,
+ * volume surging while liquidity stays put, and buy/sell counts so evenly
+ * matched they suggest a bot trading with itself.
+ */
+export class AnomalyDetector {
+  private snapshots: SnapshotStore;
+
+  constructor(snapshots: SnapshotStore = snapshotStore) {
+    this.snapshots = snapshots;
+  }
+
+  async annotate(tokens: Token[], now: number = Date.now()): Promise<Token[]> {
+    const annotated: Token[] = [];
+    for (const token of tokens) {
+      annotated.push({ ...token, anomaly_flags: await this.detect(token, now) });
+    }
+    return annotated;
+  }
+
+  async detect(token: Token, now: number = Date.now()): Promise<AnomalyFlag[]> {
+    const flags: AnomalyFlag[] = [];
+
+    if (this.hasImplausibleTradeSize(token)) {
+      flags.push('implausible_volume_per_trade');
+    }
+    if (await this.hasVolumeSpike(token, now)) {
+      flags.push('volume_spike_without_liquidity');
+    }
+    if (this.hasSymmetricTrades(token)) {
+      flags.push('symmetric_trades');
+    }
+
+    return flags;
+  }
+
+  private hasImplausibleTradeSize(token: Token): boolean {
+    if (token.transaction_count < MIN_TRADES_FOR_SIZE_CHECK) {
+      return false;
+    }
+    const perTrade = token.volume_sol / token.transaction_count;
+    return perTrade > MAX_VOLUME_PER_TXN || perTrade < MIN_VOLUME_PER_TXN;
+  }
+
+  private async hasVolumeSpike(token: Token, now: number): Promise<boolean> {
+    const samples = await this.snapshots.getSamples(
+      token.token_address,
+      now - SPIKE_WINDOW_MS,
+      now
+    );
+
+    if (samples.length >= 2 && samples[0].volume_sol > 0 && samples[0].liquidity_sol > 0) {
+      const first = samples[0];
+      const volumeGrowth = token.volume_sol / first.volume_sol;
+      const liquidityGrowth = token.liquidity_sol / first.liquidity_sol;
+      return volumeGrowth >= SPIKE_RATIO && liquidityGrowth < MATCHING_LIQUIDITY_GROWTH;
+    }
+
+    // Not enough history yet: fall back to 24h volume against current liquidity
+    return token.liquidity_sol > 0 && token.volume_sol / token.liquidity_sol > MAX_TURNOVER;
+  }
+
+  private hasSymmetricTrades(token: Token): boolean {
+    const buys = token.buy_count;
+    const sells = token.sell_count;
+    if (buys === undefined || sells === undefined || buys + sells < MIN_TRADES_FOR_SYMMETRY) {
+      return false;
+    }
+    return Math.abs(buys - sells) / Math.max(buys, sells) <= SYMMETRY_TOLERANCE;
+  }
+}
+
+/**
+ * Remembers which flags have been announced per token, so each anomaly is
+ * reported once when raised rather than on every refresh. A flag that clears
+ * and later returns is reported again.
+ */
+export class AnomalyTracker {
+  private reported = new Map<string, Set<AnomalyFlag>>();
+
+  track(tokens: Token[]): AnomalyEvent[] {
+    const events: AnomalyEvent[] = [];
+    const current = new Map<string, Set<AnomalyFlag>>();
+
+    for (const token of tokens) {
+      const flags = token.anomaly_flags || [];
+      if (flags.length === 0) {
+        continue;
+      }
+
+      const key = token.token_address.toLowerCase();
+      const previous = this.reported.get(key) || new Set<AnomalyFlag>();
+      const raised = flags.filter((flag) => !previous.has(flag));
+      if (raised.length > 0) {
+        events.push({ token, flags: raised });
+      }
+      current.set(key, new Set(flags));
+    }
+
+    this.reported = current;
+    return events;
+  }
+}
@@ -12,6 +12,7 @@ export class CacheService {
   private inMemoryCache: Map<string, CacheEntry> = new Map();
   private redisAvailable: boolean = false;
   private redisEnabled: boolean;
+  private pending: Map<string, Promise<unknown>> = new Map(); // In-flight getOrSet fetches
 
   constructor() {
     this.defaultTTL = parseInt(process.env.REDIS_TTL || '30', 10);
@@ -169,10 +170,24 @@ export class CacheService {
       return cached;
     }
 
+    // Concurrent misses for the same key share one fetch
+    const pending = this.pending.get(key) as Promise<T> | undefined;
+    if (pending) {
+      return pending;
+    }
+
     logger.debug(`Cache miss for key: ${key}`);
-    const data = await fetchFn();
-    await this.set(key, data, ttl);
-    return data;
+    const fetch = (async () => {
+      const data = await fetchFn();
+      await this.set(key, data, ttl);
+      return data;
+    })();
+    this.pending.set(key, fetch);
+    try {
+      return await fetch;
+    } finally {
+      this.pending.delete(key);
+    }
   }
 
   generateKey(prefix: string, ...parts: (string | number)[]): string {
@@ -193,6 +208,14 @@ export class CacheService {
   isRedisAvailable(): boolean {
     return this.redisAvailable;
   }
+
+  /**
+   * Raw Redis client for data structures the key/value API doesn't cover,
+   * or null when Redis is disabled or unreachable.
+   */
+  getRedisClient(): Redis | null {
+    return this.redisEnabled && this.redisAvailable ? this.client : null;
+  }
 }
 
 export const cacheService = new CacheService();
@@ -0,0 +1,60 @@
+import { TokenSample } from './history';
+
+export type CandleInterval = '1m' | '5m' | '1h';
+
+export const CANDLE_INTERVALS: Record<CandleInterval, number> = {
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface Candle {
+  timestamp: number; // Bar open time
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume_sol: number; // Estimated, see buildCandles
+  samples: number; // Observations the bar was built from
+}
+
+export function isCandleInterval(value: string): value is CandleInterval {
+  return Object.prototype.hasOwnProperty.call(CANDLE_INTERVALS, value);
+}
+
+/**
+ * Buckets price samples into OHLC bars. Bars without samples are omitted.
+ *
+ * Sources only report rolling 24h volume, so bar volume is estimated as the
+ * bar's share of the average 24h volume observed during the bar.
+ */
+export function buildCandles(samples: TokenSample[], interval: CandleInterval): Candle[] {
+  const intervalMs = CANDLE_INTERVALS[interval];
+  const buckets = new Map<number, TokenSample[]>();
+
+  for (const sample of [...samples].sort((a, b) => a.timestamp - b.timestamp)) {
+    if (!(sample.price_sol > 0)) {
+      continue;
+    }
+    const bucket = Math.floor(sample.timestamp / intervalMs) * intervalMs;
+    buckets.set(bucket, [...(buckets.get(bucket) || []), sample]);
+  }
+
+  return Array.from(buckets.entries()).map(([timestamp, bucket]) => {
+    const prices = bucket.map((sample) => sample.price_sol);
+    const averageVolume24h =
+      bucket.reduce((sum, sample) => sum + sample.volume_sol, 0) / bucket.length;
+
+    return {
+      timestamp,
+      open: prices[0],
+      high: Math.max(...prices),
+      low: Math.min(...prices),
+      close: prices[prices.length - 1],
+      volume_sol: averageVolume24h * (intervalMs / DAY_MS),
+      samples: bucket.length,
+    };
+  });
+}
@@ -0,0 +1,257 @@
+import { Token, Pool, FieldProvenance, ProvenanceField, TokenProvenance } from '../types/token';
+import { mergePools, applyPoolAggregates } from './pools';
+
+// Sources whose price deviates from the consensus by more than this fraction are rejected
+const MAX_PRICE_DEVIATION = parseFloat(process.env.CONSENSUS_MAX_DEVIATION || '0.15');
+
+// Optional per-window pool metrics that token-level values are aggregated from
+const WINDOWED_POOL_FIELDS = [
+  'price_5m_change',
+  'price_6hr_change',
+  'volume_5m_sol',
+  'volume_1hr_sol',
+  'volume_6hr_sol',
+  'buy_count',
+  'sell_count',
+] as const;
+
+interface SourceObservation {
+  source: string;
+  token: Token; // The source's view of the token, aggregated across its own pools
+  weight: number; // Configured source weight
+}
+
+/**
+ * Merges the records several sources report for the same token address.
+ *
+ * Each source first collapses its own records into one observation. The
+ * observation with the most agreeing source weight anchors the consensus;
+ * sources deviating from it by more than the threshold are rejected. Metrics
+ * are then aggregated over the pools of accepted sources, deduplicated by pair
+ * address, so the same pool reported twice is only counted once.
+ */
+export class ConsensusMerger {
+  private getSourceWeight: (source: string) => number;
+  private maxDeviation: number;
+
+  constructor(
+    getSourceWeight: (source: string) => number = () => 1,
+    maxDeviation: number = MAX_PRICE_DEVIATION
+  ) {
+    this.getSourceWeight = getSourceWeight;
+    this.maxDeviation = maxDeviation;
+  }
+
+  merge(tokens: Token[]): Token {
+    const observations = this.observe(tokens);
+    const anchor = this.findAnchor(observations);
+
+    const accepted = observations.filter(
+      (obs) =>
+        obs === anchor ||
+        this.deviation(obs.token.price_sol, anchor.token.price_sol) <= this.maxDeviation
+    );
+    const rejected = observations.filter((obs) => !accepted.includes(obs));
+
+    // Most liquid (then most trusted) accepted source supplies descriptive fields
+    accepted.sort(
+      (a, b) =>
+        b.token.liquidity_sol * b.weight - a.token.liquidity_sol * a.weight || b.weight - a.weight
+    );
+    const primary = accepted[0].token;
+
+    const pools = accepted.reduce(
+      (merged, obs) => mergePools(merged, obs.token.pools),
+      [] as NonNullable<Token['pools']>
+    );
+    // Reported market caps win over ones estimated from volume
+    const marketCap =
+      this.firstDefined(accepted, (t) =>
+        t.market_cap_estimated ? undefined : t.market_cap_sol || undefined
+      ) ?? this.firstDefined(accepted, (t) => t.market_cap_sol || undefined);
+    const change1h = this.firstDefined(accepted, (t) => t.price_1hr_change);
+    const change24h = this.firstDefined(accepted, (t) => t.price_24hr_change);
+    const change7d = this.firstDefined(accepted, (t) => t.price_7d_change);
+
+    let merged: Token = {
+      ...primary,
+      source: accepted.map((obs) => obs.source).join(','),
+      pools: pools.length > 0 ? pools : undefined,
+      market_cap_sol: marketCap?.token.market_cap_sol ?? 0,
+      market_cap_estimated: marketCap?.token.market_cap_estimated,
+      price_1hr_change: change1h?.token.price_1hr_change,
+      price_24hr_change: change24h?.token.price_24hr_change,
+      price_7d_change: change7d?.token.price_7d_change,
+      last_updated: this.latest(accepted.map((obs) => obs.token.last_updated)),
+    };
+
+    const provenance: TokenProvenance = {
+      token_name: this.provenanceOf([accepted[0]]),
+      token_ticker: this.provenanceOf([accepted[0]]),
+      protocol: this.provenanceOf([accepted[0]]),
+      market_cap_sol: marketCap && this.provenanceOf([marketCap]),
+      price_1hr_change: change1h && this.provenanceOf([change1h]),
+      price_24hr_change: change24h && this.provenanceOf([change24h]),
+      price_7d_change: change7d && this.provenanceOf([change7d]),
+    };
+    for (const field of WINDOWED_POOL_FIELDS) {
+      if (primary[field] !== undefined) {
+        provenance[field] = this.provenanceOf([accepted[0]]);
+      }
+    }
+
+    if (pools.length > 0) {
+      // Liquidity-weighted price and summed volume over unique pools
+      merged = applyPoolAggregates(merged);
+
+      const fromPools = this.poolProvenance(pools);
+      provenance.price_sol = fromPools;
+      provenance.volume_sol = fromPools;
+      provenance.liquidity_sol = fromPools;
+      provenance.transaction_count = fromPools;
+      for (const field of ['price_1hr_change', 'price_24hr_change', ...WINDOWED_POOL_FIELDS]) {
+        if (pools.some((pool) => pool[field as keyof Pool] !== undefined)) {
+          provenance[field as ProvenanceField] = fromPools;
+        }
+      }
+    } else {
+      // Price-only sources: weight by configured trust, don't add up volumes
+      merged.price_sol = this.weightedPrice(accepted);
+
+      provenance.price_sol = this.provenanceOf(accepted);
+      provenance.volume_sol = this.provenanceOf([accepted[0]]);
+      provenance.liquidity_sol = this.provenanceOf([accepted[0]]);
+      provenance.transaction_count = this.provenanceOf([accepted[0]]);
+    }
+
+    merged.confidence = this.confidence(observations, accepted, merged.price_sol);
+    merged.rejected_sources = rejected.map((obs) => obs.source);
+    merged.provenance = this.compact(provenance);
+    return merged;
+  }
+
+  private observe(tokens: Token[]): SourceObservation[] {
+    const bySource = new Map<string, Token[]>();
+    for (const token of tokens) {
+      const source = token.source || 'unknown';
+      bySource.set(source, [...(bySource.get(source) || []), token]);
+    }
+
+    return Array.from(bySource.entries()).map(([source, records]) => {
+      const base = records.reduce((best, token) =>
+        token.liquidity_sol > best.liquidity_sol ? token : best
+      );
+      const pools = records.reduce(
+        (merged, token) => mergePools(merged, token.pools),
+        [] as NonNullable<Token['pools']>
+      );
+
+      return {
+        source,
+        token: pools.length > 0 ? applyPoolAggregates({ ...base, pools }) : { ...base },
+        weight: this.getSourceWeight(source),
+      };
+    });
+  }
+
+  private findAnchor(observations: SourceObservation[]): SourceObservation {
+    let anchor = observations[0];
+    let anchorSupport = -1;
+
+    for (const candidate of observations) {
+      const support = observations
+        .filter(
+          (obs) =>
+            this.deviation(obs.token.price_sol, candidate.token.price_sol) <= this.maxDeviation
+        )
+        .reduce((sum, obs) => sum + obs.weight, 0);
+
+      // Ties go to the more liquid source
+      if (
+        support > anchorSupport ||
+        (support === anchorSupport && candidate.token.liquidity_sol > anchor.token.liquidity_sol)
+      ) {
+        anchor = candidate;
+        anchorSupport = support;
+      }
+    }
+
+    return anchor;
+  }
+
+  private weightedPrice(observations: SourceObservation[]): number {
+    const totalWeight = observations.reduce((sum, obs) => sum + obs.weight, 0);
+    if (totalWeight <= 0) {
+      return observations[0].token.price_sol;
+    }
+    return (
+      observations.reduce((sum, obs) => sum + obs.token.price_sol * obs.weight, 0) / totalWeight
+    );
+  }
+
+  /**
+   * 0-1 score: share of source weight that agreed, scaled down by how far the
+   * accepted prices spread around the consensus, and halved for a single source.
+   */
+  private confidence(
+    observations: SourceObservation[],
+    accepted: SourceObservation[],
+    price: number
+  ): number {
+    const totalWeight = observations.reduce((sum, obs) => sum + obs.weight, 0);
+    const acceptedWeight = accepted.reduce((sum, obs) => sum + obs.weight, 0);
+    const agreement = totalWeight > 0 ? acceptedWeight / totalWeight : 0;
+
+    const spread = Math.max(...accepted.map((obs) => this.deviation(obs.token.price_sol, price)));
+    const tightness = this.maxDeviation > 0 ? Math.max(0, 1 - spread / this.maxDeviation) : 1;
+    const coverage = Math.min(1, accepted.length / 2);
+
+    return Math.round(agreement * (0.5 + 0.5 * tightness) * coverage * 100) / 100;
+  }
+
+  private deviation(price: number, reference: number): number {
+    if (reference <= 0) {
+      return price === reference ? 0 : Infinity;
+    }
+    return Math.abs(price - reference) / reference;
+  }
+
+  private firstDefined<T>(
+    observations: SourceObservation[],
+    getValue: (token: Token) => T | undefined
+  ): SourceObservation | undefined {
+    return observations.find((obs) => getValue(obs.token) !== undefined);
+  }
+
+  private provenanceOf(observations: SourceObservation[]): FieldProvenance {
+    return {
+      source: observations.map((obs) => obs.source).join(','),
+      fetched_at: this.latest(observations.map((obs) => obs.token.last_updated)),
+    };
+  }
+
+  private poolProvenance(pools: Pool[]): FieldProvenance {
+    return {
+      source: Array.from(new Set(pools.map((pool) => pool.source))).join(','),
+      fetched_at: this.latest(pools.map((pool) => pool.last_updated)),
+    };
+  }
+
+  private latest(timestamps: (number | undefined)[]): number | undefined {
+    return Math.max(...timestamps.map((timestamp) => timestamp || 0)) || undefined;
+  }
+
+  private compact(provenance: TokenProvenance): TokenProvenance {
+    return Object.fromEntries(
+      Object.entries(provenance).filter(([, value]) => value !== undefined)
+    ) as TokenProvenance;
+  }
+}
+
+/**
+ * Removes per-field provenance from tokens. It is only sent to clients that
+ * ask for it, since it roughly doubles the payload.
+ */
+export function stripProvenance(tokens: Token[]): Token[] {
+  return tokens.map(({ provenance: _provenance, ...token }) => token);
+}
@@ -0,0 +1,136 @@
+import { Token } from '../types/token';
+
+export interface TokenChange {
+  token_address: string;
+  // Only the fields that changed; null marks a field that is no longer set
+  fields: { [K in keyof Token]?: Token[K] | null };
+}
+
+export interface TokenDelta {
+  added: Token[];
+  removed: string[]; // Token addresses
+  changed: TokenChange[];
+  order?: string[]; // Token addresses in display order, sent only when the order changed
+}
+
+// Fields that change without the token's data changing. age_seconds ticks on
+// every refresh; clients derive it from created_at instead of getting it in deltas
+export const VOLATILE_FIELDS: ReadonlySet<string> = new Set(['age_seconds']);
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  // Pools, risk reasons and provenance are plain JSON, so compare them structurally
+  if (typeof a === 'object' && typeof b === 'object' && a !== null && b !== null) {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+  return false;
+}
+
+function changedFields(previous: Token, next: Token): TokenChange['fields'] {
+  const fields: Record<string, unknown> = {};
+  const keys = new Set([...Object.keys(previous), ...Object.keys(next)]) as Set<keyof Token>;
+
+  for (const key of keys) {
+    if (VOLATILE_FIELDS.has(key)) {
+      continue;
+    }
+    const before = previous[key];
+    const after = next[key];
+    if (!sameValue(before, after)) {
+      fields[key] = after === undefined ? null : after;
+    }
+  }
+
+  return fields as TokenChange['fields'];
+}
+
+/**
+ * Describes how to turn the token list a client last received into the
+ * current one: tokens that entered or left the list, the fields that moved on
+ * tokens present in both, and the new order when it differs.
+ */
+export function diffTokens(previous: Token[], next: Token[]): TokenDelta {
+  const before = new Map(previous.map((token) => [token.token_address, token]));
+  const after = new Set(next.map((token) => token.token_address));
+
+  const added: Token[] = [];
+  const changed: TokenChange[] = [];
+  for (const token of next) {
+    const old = before.get(token.token_address);
+    if (!old) {
+      added.push(token);
+      continue;
+    }
+    const fields = changedFields(old, token);
+    if (Object.keys(fields).length > 0) {
+      changed.push({ token_address: token.token_address, fields });
+    }
+  }
+
+  const removed = previous
+    .map((token) => token.token_address)
+    .filter((address) => !after.has(address));
+
+  const delta: TokenDelta = { added, removed, changed };
+  const previousOrder = previous
+    .map((token) => token.token_address)
+    .filter((address) => after.has(address));
+  const nextOrder = next.map((token) => token.token_address);
+  // Appending the added tokens to the surviving ones in their old order is
+  // what a client does by default; anything else needs an explicit order
+  const implied = [...previousOrder, ...added.map((token) => token.token_address)];
+  if (implied.some((address, index) => address !== nextOrder[index])) {
+    delta.order = nextOrder;
+  }
+
+  return delta;
+}
+
+export function isEmptyDelta(delta: TokenDelta): boolean {
+  return (
+    delta.added.length === 0 &&
+    delta.removed.length === 0 &&
+    delta.changed.length === 0 &&
+    delta.order === undefined
+  );
+}
+
+/**
+ * Applies a delta to a token list, the way a client would. Used to check that
+ * deltas round-trip.
+ */
+export function applyDelta(tokens: Token[], delta: TokenDelta): Token[] {
+  const removed = new Set(delta.removed);
+  const byAddress = new Map(
+    tokens
+      .filter((token) => !removed.has(token.token_address))
+      .map((token) => [token.token_address, token])
+  );
+
+  for (const change of delta.changed) {
+    const token = byAddress.get(change.token_address);
+    if (!token) {
+      continue;
+    }
+    const updated: Record<string, unknown> = { ...token };
+    for (const [key, value] of Object.entries(change.fields)) {
+      if (value === null) {
+        delete updated[key];
+      } else {
+        updated[key] = value;
+      }
+    }
+    byAddress.set(change.token_address, updated as unknown as Token);
+  }
+
+  for (const token of delta.added) {
+    byAddress.set(token.token_address, token);
+  }
+
+  const order = delta.order || Array.from(byAddress.keys());
+  return order
+    .map((address) => byAddress.get(address))
+    .filter((token): token is Token => token !== undefined);
+}
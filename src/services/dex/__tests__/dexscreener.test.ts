@@ -1,17 +1,163 @@
+import os from 'os';
+import path from 'path';
 import { DexScreenerClient } from '../dexscreener';
+import { SolPriceOracle, SOL_MINT } from '../../oracle';
+import { WatchlistService } from '../../watchlist';
+
+jest.mock('../../../utils/retry', () => ({
+  ...jest.requireActual('../../../utils/retry'),
+  sleep: jest.fn().mockResolvedValue(undefined),
+}));
+
+function mint(i: number): string {
+  return `Mint${String(i).padStart(3, '0')}${'1'.repeat(36)}`;
+}
+
+function pair(baseAddress: string, quoteAddress: string = SOL_MINT) {
+  return {
+    chainId: 'solana',
+    dexId: 'raydium',
+    url: `https://dexscreener.com/solana/${baseAddress}`,
+    pairAddress: `Pair${baseAddress}`,
+    baseToken: { address: baseAddress, name: 'Token', symbol: 'TKN' },
+    quoteToken: { address: quoteAddress, name: 'Wrapped SOL', symbol: 'SOL' },
+    priceNative: '0.002',
+    priceUsd: '0.3',
+    txns: {
+      m5: { buys: 1, sells: 1 },
+      h1: { buys: 10, sells: 5 },
+      h6: { buys: 60, sells: 40 },
+      h24: { buys: 300, sells: 200 },
+    },
+    volume: { h24: 150000, h6: 30000, h1: 6000, m5: 750 },
+    priceChange: { m5: 0.5, h1: 2, h6: -3, h24: 12 },
+    liquidity: { usd: 45000, base: 100000, quote: 150 },
+    fdv: 3000000,
+    pairCreatedAt: 1700000000000,
+  };
+}
 
 describe('DexScreenerClient', () => {
   let client: DexScreenerClient;
+  let oracle: SolPriceOracle;
+  let watchlist: WatchlistService;
+  let get: jest.SpyInstance;
+
+  beforeEach(async () => {
+    oracle = new SolPriceOracle();
+    jest.spyOn(oracle, 'getFreshPrice').mockResolvedValue(150);
+    watchlist = new WatchlistService(
+      path.join(os.tmpdir(), `dexscreener-test-${process.pid}.json`)
+    );
+    jest.spyOn(watchlist, 'getQueries').mockReturnValue(['BONK']);
+    jest.spyOn(watchlist, 'getMints').mockReturnValue([mint(1), mint(2)]);
 
-  beforeEach(() => {
-    client = new DexScreenerClient();
+    client = new DexScreenerClient(oracle, watchlist, 'hybrid');
+    get = jest.spyOn(client['client'], 'get').mockImplementation(async (url: string) => {
+      if (url.startsWith('/tokens/')) {
+        const addresses = url.slice('/tokens/'.length).split(',');
+        // Include a pair where the requested mint is only the quote token
+        return {
+          data: { pairs: [...addresses.map((a) => pair(a)), pair(mint(999), addresses[0])] },
+        };
+      }
+      return { data: { pairs: [pair(mint(500))] } };
+    });
   });
 
   it('should be instantiated', () => {
     expect(client).toBeInstanceOf(DexScreenerClient);
   });
 
-  // Integration tests would go here, but we'll skip actual API calls in unit tests
-  // to avoid rate limiting and external dependencies
-});
+  it('should keep the pair as a pool on the token', async () => {
+    const [token] = await client.getTokenData(mint(1));
+    expect(token.pools).toEqual([
+      expect.objectContaining({
+        pair_address: `Pair${mint(1)}`,
+        dex: 'raydium',
+        quote_token: { address: SOL_MINT, symbol: 'SOL' },
+        price_sol: 0.002,
+        price_usd: 0.3,
+        liquidity_sol: 300,
+        volume_sol: 1000,
+      }),
+    ]);
+  });
+
+  it('should convert USD volume, liquidity and market cap to SOL', async () => {
+    const [token] = await client.getTokenData(mint(1));
+    expect(token.price_sol).toBe(0.002);
+    expect(token.volume_sol).toBe(1000);
+    expect(token.liquidity_sol).toBe(300);
+    expect(token.market_cap_sol).toBe(20000);
+    expect(token.market_cap_estimated).toBe(false);
+    expect(token.transaction_count).toBe(500);
+  });
+
+  it('should keep every window of price change, volume and buy/sell counts', async () => {
+    const [token] = await client.getTokenData(mint(1));
+    expect(token).toMatchObject({
+      price_5m_change: 0.5,
+      price_1hr_change: 2,
+      price_6hr_change: -3,
+      price_24hr_change: 12,
+      volume_5m_sol: 5,
+      volume_1hr_sol: 40,
+      volume_6hr_sol: 200,
+      buy_count: 300,
+      sell_count: 200,
+      buy_sell_ratio: 1.5,
+      created_at: 1700000000000,
+    });
+    expect(token.pools?.[0]).toMatchObject({ volume_1hr_sol: 40, buy_count: 300, sell_count: 200 });
+  });
+
+  it('should chunk tracked addresses into requests of at most 30', async () => {
+    const addresses = Array.from({ length: 65 }, (_, i) => mint(i));
+    const tokens = await client.getTokensData(addresses);
+
+    const batchSizes = get.mock.calls.map(
+      ([url]) => url.slice('/tokens/'.length).split(',').length
+    );
+    expect(batchSizes).toEqual([30, 30, 5]);
+    expect(tokens).toHaveLength(65);
+  });
 
+  it('should ignore pairs where a requested address is only the quote token', async () => {
+    const tokens = await client.getTokensData([mint(1)]);
+    expect(tokens.map((t) => t.token_address)).toEqual([mint(1)]);
+  });
+
+  it('should keep other batches when one request fails', async () => {
+    get.mockRejectedValueOnce(new Error('rate limited'));
+    const addresses = Array.from({ length: 40 }, (_, i) => mint(i));
+    const tokens = await client.getTokensData(addresses);
+    expect(tokens).toHaveLength(10);
+  });
+
+  it('should only refresh tracked mints in tracked mode', async () => {
+    client = new DexScreenerClient(oracle, watchlist, 'tracked');
+    get = jest.spyOn(client['client'], 'get').mockResolvedValue({
+      data: { pairs: [pair(mint(1)), pair(mint(2))] },
+    });
+
+    const tokens = await client.getPopularTokens();
+
+    expect(get).toHaveBeenCalledTimes(1);
+    expect(get).toHaveBeenCalledWith(`/tokens/${mint(1)},${mint(2)}`);
+    expect(tokens.map((t) => t.token_address)).toEqual([mint(1), mint(2)]);
+  });
+
+  it('should put tracked mints ahead of search results in hybrid mode', async () => {
+    const tokens = await client.getPopularTokens();
+    // The trending and BONK searches return the same pool, which is only kept once
+    expect(tokens.map((t) => t.token_address)).toEqual([mint(1), mint(2), mint(500)]);
+    expect(get).toHaveBeenCalledWith('/search?q=BONK');
+  });
+
+  it('should not publish anything without a fresh SOL/USD quote', async () => {
+    jest.spyOn(oracle, 'getFreshPrice').mockResolvedValue(null);
+    await expect(client.getPopularTokens()).resolves.toEqual([]);
+    await expect(client.getTokensData([mint(1)])).resolves.toEqual([]);
+  });
+});
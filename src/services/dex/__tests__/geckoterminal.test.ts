@@ -0,0 +1,118 @@
+import { GeckoTerminalClient } from '../geckoterminal';
+import { cacheService } from '../../cache';
+import { RateLimiter } from '../../../utils/ratelimit';
+import trendingPools from './fixtures/geckoterminal-trending-pools.json';
+import topPools from './fixtures/geckoterminal-top-pools.json';
+import ohlcvDay from './fixtures/geckoterminal-ohlcv-day.json';
+
+const BONK = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+const WIF = 'EKpQGSJtjMFqKZ9KQanSqYXRcF8fBopzLHYxdM65zcjm';
+const POPCAT = '7GCihgDB8fe6KNjn2MYtkzZcRjQy3t9GHdC8uHYmW2hr';
+
+describe('GeckoTerminalClient', () => {
+  let client: GeckoTerminalClient;
+  let get: jest.SpyInstance;
+
+  beforeEach(async () => {
+    client = new GeckoTerminalClient(new RateLimiter(0));
+    get = jest.spyOn(client['client'], 'get').mockImplementation(async (url: string) => {
+      if (url.includes('/trending_pools')) return { data: trendingPools };
+      if (url.includes('/ohlcv/day')) return { data: ohlcvDay };
+      if (url.includes('/pools')) return { data: topPools };
+      throw new Error(`Unexpected request: ${url}`);
+    });
+
+    for (const pool of [...trendingPools.data, ...topPools.data]) {
+      await cacheService.del(
+        cacheService.generateKey('geckoterminal', '7d', pool.attributes.address)
+      );
+    }
+  });
+
+  it('should be instantiated', () => {
+    expect(client).toBeInstanceOf(GeckoTerminalClient);
+    expect(client.name).toBe('geckoterminal');
+  });
+
+  it('should map trending and top pools into unique tokens', async () => {
+    const tokens = await client.getPopularTokens();
+
+    expect(tokens.map((t) => t.token_address)).toEqual([BONK, WIF, POPCAT]);
+    expect(tokens.every((t) => t.source === 'geckoterminal')).toBe(true);
+  });
+
+  it('should convert USD figures to SOL using the pool prices', async () => {
+    const tokens = await client.getPopularTokens();
+    const bonk = tokens.find((t) => t.token_address === BONK)!;
+
+    // 0.0000231845 USD / 0.000000154563 SOL = ~150 USD per SOL
+    expect(bonk.token_name).toBe('Bonk');
+    expect(bonk.token_ticker).toBe('Bonk');
+    expect(bonk.price_sol).toBeCloseTo(0.000000154563, 12);
+    expect(bonk.volume_sol).toBeCloseTo(10000, 0);
+    expect(bonk.liquidity_sol).toBeCloseTo(20000, 0);
+    expect(bonk.market_cap_sol).toBeCloseTo(10080000, -2);
+    expect(bonk.transaction_count).toBe(8000);
+    expect(bonk.price_1hr_change).toBe(-1.35);
+    expect(bonk.price_24hr_change).toBe(8.44);
+    expect(bonk.protocol).toBe('raydium');
+  });
+
+  it('should keep the pool with its quote token', async () => {
+    const tokens = await client.getPopularTokens();
+    const wif = tokens.find((t) => t.token_address === WIF)!;
+
+    expect(wif.pools).toEqual([
+      expect.objectContaining({
+        pair_address: 'EP2ib6dYdEeqD8MfE2ezHCxX3kP3K2eLKkirfPm5eyMx',
+        dex: 'orca',
+        quote_token: { address: 'So11111111111111111111111111111111111111112', symbol: 'SOL' },
+        price_usd: 2.1,
+        source: 'geckoterminal',
+      }),
+    ]);
+  });
+
+  it('should fall back to FDV when market cap is missing', async () => {
+    const tokens = await client.getPopularTokens();
+    const wif = tokens.find((t) => t.token_address === WIF)!;
+    expect(wif.market_cap_sol).toBeCloseTo(2097000000 / 150, -2);
+  });
+
+  it('should backfill the 7d change from daily candles in the background', async () => {
+    const first = await client.getPopularTokens();
+    expect(first.find((t) => t.token_address === BONK)!.price_7d_change).toBeUndefined();
+
+    await client['backfill'];
+    const ohlcvCalls = get.mock.calls.filter(([url]) => url.includes('/ohlcv/day'));
+    expect(ohlcvCalls).toHaveLength(3);
+
+    get.mockClear();
+    const tokens = await client.getPopularTokens();
+    const bonk = tokens.find((t) => t.token_address === BONK)!;
+    expect(bonk.price_7d_change).toBeCloseTo(15.9225, 3);
+    expect(get.mock.calls.filter(([url]) => url.includes('/ohlcv/day'))).toHaveLength(0);
+  });
+
+  it('should send every request through the shared limiter', async () => {
+    const limiter = new RateLimiter(0);
+    const acquire = jest.spyOn(limiter, 'acquire');
+    client['limiter'] = limiter;
+
+    await client.getPopularTokens();
+    await client['backfill'];
+
+    expect(acquire).toHaveBeenCalledTimes(get.mock.calls.length);
+  });
+
+  it('should look up pools for a single token address', async () => {
+    const tokens = await client.getTokenData(POPCAT);
+    expect(get).toHaveBeenCalledWith(expect.stringContaining(`/tokens/${POPCAT}/pools`));
+    expect(tokens.map((t) => t.token_ticker)).toEqual(['Bonk', 'POPCAT']);
+  });
+
+  it('should return an empty list when a request fails', async () => {
+    get.mockRejectedValue(new Error('network down'));
+    await expect(client.searchTokens('BONK')).resolves.toEqual([]);
+  });
+});
@@ -1,16 +1,121 @@
+import os from 'os';
+import path from 'path';
 import { JupiterClient } from '../jupiter';
+import { SolPriceOracle } from '../../oracle';
+import { WatchlistService } from '../../watchlist';
+
+jest.mock('../../../utils/retry', () => ({
+  ...jest.requireActual('../../../utils/retry'),
+  sleep: jest.fn().mockResolvedValue(undefined),
+}));
+
+const BONK = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+
+function searchResult(query: string, count: number) {
+  return Array.from({ length: count }, (_, i) => ({
+    address: `${query}Mint${i}`,
+    chainId: 101,
+    decimals: 6,
+    name: `${query} ${i}`,
+    symbol: `${query}${i}`,
+  }));
+}
+
+function priceResponse(url: string) {
+  const ids = new URL(url, 'https://lite-api.jup.ag').searchParams.get('ids')!.split(',');
+  const data = Object.fromEntries(ids.map((id) => [id, { id, type: 'derivedPrice', price: '3' }]));
+  return { data };
+}
 
 describe('JupiterClient', () => {
   let client: JupiterClient;
+  let oracle: SolPriceOracle;
+  let get: jest.SpyInstance;
 
   beforeEach(() => {
-    client = new JupiterClient();
+    oracle = new SolPriceOracle();
+    jest.spyOn(oracle, 'getFreshPrice').mockResolvedValue(150);
+    // No file at this path, so the default watchlist applies
+    const watchlist = new WatchlistService(path.join(os.tmpdir(), 'jupiter-test-watchlist.json'));
+    client = new JupiterClient(oracle, watchlist);
+    get = jest.spyOn(client['client'], 'get');
   });
 
   it('should be instantiated', () => {
     expect(client).toBeInstanceOf(JupiterClient);
   });
 
-  // Integration tests would go here
-});
+  describe('searchTokens', () => {
+    beforeEach(() => {
+      get.mockImplementation(async (url: string) => {
+        if (url.startsWith('/tokens/v2/search')) {
+          return {
+            data: [
+              { address: BONK, chainId: 101, decimals: 5, name: 'Bonk', symbol: 'Bonk' },
+              { address: 'NoPriceMint', chainId: 101, decimals: 6, name: 'None', symbol: 'NONE' },
+            ],
+          };
+        }
+        return { data: { data: { [BONK]: { id: BONK, price: '0.00003' }, NoPriceMint: null } } };
+      });
+    });
+
+    it('should convert USD prices to SOL with the oracle price', async () => {
+      const tokens = await client.searchTokens('BONK');
+      expect(tokens).toHaveLength(1);
+      expect(tokens[0].token_address).toBe(BONK);
+      expect(tokens[0].price_sol).toBeCloseTo(0.0000002, 12);
+    });
 
+    it('should price all search results with a single request', async () => {
+      await client.searchTokens('BONK');
+      const priceCalls = get.mock.calls.filter(([url]) => url.startsWith('/price/v2'));
+      expect(priceCalls).toEqual([[`/price/v2?ids=${BONK},NoPriceMint`]]);
+    });
+
+    it('should not publish prices without a fresh SOL/USD quote', async () => {
+      jest.spyOn(oracle, 'getFreshPrice').mockResolvedValue(null);
+      await expect(client.searchTokens('BONK')).resolves.toEqual([]);
+    });
+  });
+
+  describe('getPopularTokens', () => {
+    it('should collect mints across queries and price them in chunked batches', async () => {
+      get.mockImplementation(async (url: string) => {
+        if (url.startsWith('/tokens/v2/search')) {
+          const query = new URL(url, 'https://lite-api.jup.ag').searchParams.get('query')!;
+          return { data: searchResult(query, 20) };
+        }
+        return { data: priceResponse(url) };
+      });
+
+      const tokens = await client.getPopularTokens();
+
+      const priceCalls = get.mock.calls.filter(([url]) => url.startsWith('/price/v2'));
+      const batchSizes = priceCalls.map(([url]) => url.split(',').length);
+      // 19 distinct queries x 20 tokens = 380 mints -> 4 calls of at most 100 ids
+      expect(batchSizes).toEqual([100, 100, 100, 80]);
+      expect(tokens).toHaveLength(200);
+      expect(tokens[0].price_sol).toBeCloseTo(0.02, 10);
+    });
+
+    it('should keep tokens from batches that succeeded', async () => {
+      let priceCall = 0;
+      get.mockImplementation(async (url: string) => {
+        if (url.startsWith('/tokens/v2/search')) {
+          const query = new URL(url, 'https://lite-api.jup.ag').searchParams.get('query')!;
+          return { data: searchResult(query, 20) };
+        }
+        priceCall += 1;
+        if (priceCall === 1) {
+          throw new Error('price batch failed');
+        }
+        return { data: priceResponse(url) };
+      });
+
+      const tokens = await client.getPopularTokens();
+      expect(tokens).toHaveLength(200);
+      expect(tokens.some((t) => t.token_address === 'SOLMint0')).toBe(false);
+    });
+  });
+});
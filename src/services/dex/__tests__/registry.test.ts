@@ -0,0 +1,69 @@
+import { SourceRegistry, loadSourceConfig } from '../registry';
+import { TokenSource } from '../source';
+
+function createSource(name: string): TokenSource {
+  return {
+    name,
+    capabilities: { search: false, tokenLookup: false, marketData: true },
+    getPopularTokens: jest.fn().mockResolvedValue([]),
+  };
+}
+
+describe('SourceRegistry', () => {
+  it('should register sources as enabled with a default weight', () => {
+    const registry = new SourceRegistry({ weights: {} });
+    registry.register(createSource('alpha'));
+
+    const entry = registry.get('alpha');
+    expect(entry?.enabled).toBe(true);
+    expect(entry?.weight).toBe(1);
+    expect(registry.getEnabled()).toHaveLength(1);
+  });
+
+  it('should reject duplicate registrations', () => {
+    const registry = new SourceRegistry({ weights: {} });
+    registry.register(createSource('alpha'));
+    expect(() => registry.register(createSource('Alpha'))).toThrow('already registered');
+  });
+
+  it('should only enable sources listed in the config', () => {
+    const registry = new SourceRegistry({ enabledSources: ['beta'], weights: {} });
+    registry.register(createSource('alpha'));
+    registry.register(createSource('beta'));
+
+    expect(registry.getEnabled().map((entry) => entry.source.name)).toEqual(['beta']);
+  });
+
+  it('should prefer configured weights over registration defaults', () => {
+    const registry = new SourceRegistry({ weights: { alpha: 0.25 } });
+    registry.register(createSource('alpha'), { weight: 2 });
+    registry.register(createSource('beta'), { weight: 2 });
+
+    expect(registry.getWeight('alpha')).toBe(0.25);
+    expect(registry.getWeight('beta')).toBe(2);
+    expect(registry.getWeight('unknown')).toBe(1);
+  });
+
+  it('should exclude disabled and zero-weight sources', () => {
+    const registry = new SourceRegistry({ weights: {} });
+    registry.register(createSource('alpha'));
+    registry.register(createSource('beta'));
+    registry.register(createSource('gamma'));
+
+    registry.setEnabled('alpha', false);
+    registry.setWeight('beta', 0);
+
+    expect(registry.getEnabled().map((entry) => entry.source.name)).toEqual(['gamma']);
+    expect(() => registry.setEnabled('missing', true)).toThrow('Unknown token source');
+  });
+
+  it('should parse source config from the environment', () => {
+    const config = loadSourceConfig({
+      ENABLED_SOURCES: 'DexScreener, jupiter',
+      SOURCE_WEIGHTS: 'dexscreener:1.5,jupiter:0.5,broken:abc',
+    });
+
+    expect(config.enabledSources).toEqual(['dexscreener', 'jupiter']);
+    expect(config.weights).toEqual({ dexscreener: 1.5, jupiter: 0.5 });
+  });
+});
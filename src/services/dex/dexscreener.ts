@@ -1,10 +1,26 @@
 import axios, { AxiosInstance } from 'axios';
-import { Token } from '../../types/token';
-import { retryWithBackoff } from '../../utils/retry';
+import { Token, Pool } from '../../types/token';
+import { TokenSource, SourceCapabilities } from './source';
+import { SolPriceOracle, solPriceOracle, SOL_MINT } from '../oracle';
+import { WatchlistService, watchlistService } from '../watchlist';
+import { buySellRatio } from '../pools';
+import { retryWithBackoff, sleep } from '../../utils/retry';
 import logger from '../../utils/logger';
 
 const MAX_TOKENS_PER_QUERY = parseInt(process.env.DEXSCREENER_TOKENS_PER_QUERY || '40', 10);
 const MAX_TOTAL_TOKENS = parseInt(process.env.DEXSCREENER_MAX_TOKENS || '250', 10);
+// 300 requests/min = 5 requests/sec, so wait 200ms between requests
+const RATE_LIMIT_DELAY_MS = Math.ceil(
+  60000 / parseInt(process.env.DEXSCREENER_RATE_LIMIT || '300', 10)
+);
+// The tokens endpoint accepts at most 30 comma-separated addresses
+const ADDRESSES_PER_REQUEST = 30;
+
+// search: discover via /search queries only
+// tracked: refresh only the watchlist mints (deterministic token universe)
+// hybrid: tracked mints plus search discovery
+export type DexScreenerMode = 'search' | 'tracked' | 'hybrid';
+const DEXSCREENER_MODE = (process.env.DEXSCREENER_MODE || 'hybrid') as DexScreenerMode;
 
 interface DexScreenerPair {
   chainId: string;
@@ -32,6 +48,7 @@ interface DexScreenerPair {
   volume: {
     h24: number;
     h6: number;
+    h1: number;
     m5: number;
   };
   priceChange: {
@@ -53,11 +70,27 @@ interface DexScreenerResponse {
   pairs: DexScreenerPair[];
 }
 
-export class DexScreenerClient {
+export class DexScreenerClient implements TokenSource {
+  readonly name = 'dexscreener';
+  readonly capabilities: SourceCapabilities = {
+    search: true,
+    tokenLookup: true,
+    marketData: true,
+  };
   private client: AxiosInstance;
   private baseURL = 'https://api.dexscreener.com/latest/dex';
+  private oracle: SolPriceOracle;
+  private watchlist: WatchlistService;
+  private mode: DexScreenerMode;
 
-  constructor() {
+  constructor(
+    oracle: SolPriceOracle = solPriceOracle,
+    watchlist: WatchlistService = watchlistService,
+    mode: DexScreenerMode = DEXSCREENER_MODE
+  ) {
+    this.oracle = oracle;
+    this.watchlist = watchlist;
+    this.mode = mode;
     this.client = axios.create({
       baseURL: this.baseURL,
       timeout: 10000,
@@ -80,7 +113,7 @@ export class DexScreenerClient {
         }
       );
 
-      return this.transformPairs(response.pairs || []);
+      return this.transformPairs(response.pairs || [], await this.oracle.getFreshPrice());
     } catch (error) {
       logger.error('DexScreener search error:', error);
       return [];
@@ -88,27 +121,76 @@ export class DexScreenerClient {
   }
 
   async getTokenData(tokenAddress: string): Promise<Token[]> {
-    try {
-      const response = await retryWithBackoff<DexScreenerResponse>(
-        async () => {
-          const res = await this.client.get(`/tokens/${tokenAddress}`);
-          return res.data;
-        },
-        {
-          maxRetries: 3,
-          baseDelay: 1000,
-        }
-      );
+    return this.getTokensData([tokenAddress]);
+  }
 
-      return this.transformPairs(response.pairs || []);
-    } catch (error) {
-      logger.error('DexScreener token data error:', error);
-      return [];
+  /**
+   * Looks up known token addresses through the multi-address tokens endpoint,
+   * chunked to the API limit of 30 addresses per request.
+   */
+  async getTokensData(tokenAddresses: string[]): Promise<Token[]> {
+    const tokens: Token[] = [];
+    if (tokenAddresses.length === 0) {
+      return tokens;
+    }
+
+    const solUsd = await this.oracle.getFreshPrice();
+    for (let i = 0; i < tokenAddresses.length; i += ADDRESSES_PER_REQUEST) {
+      const batch = tokenAddresses.slice(i, i + ADDRESSES_PER_REQUEST);
+      try {
+        const response = await retryWithBackoff<DexScreenerResponse>(
+          async () => {
+            const res = await this.client.get(`/tokens/${batch.map(encodeURIComponent).join(',')}`);
+            return res.data;
+          },
+          {
+            maxRetries: 3,
+            baseDelay: 1000,
+          }
+        );
+
+        // The endpoint also returns pairs where a requested address is the quote token
+        const requested = new Set(batch);
+        const pairs = (response.pairs || []).filter((pair) =>
+          requested.has(pair.baseToken?.address)
+        );
+        tokens.push(...this.transformPairs(pairs, solUsd));
+      } catch (error) {
+        logger.error(`DexScreener token data error for ${batch.length} address(es):`, error);
+      }
+
+      if (i + ADDRESSES_PER_REQUEST < tokenAddresses.length) {
+        await sleep(RATE_LIMIT_DELAY_MS);
+      }
     }
+
+    return tokens;
   }
 
   async getPopularTokens(): Promise<Token[]> {
+    // Volume, liquidity and market cap are quoted in USD and need converting
+    const solUsd = await this.oracle.getFreshPrice();
+    if (solUsd === null) {
+      logger.warn('DexScreener: skipping refresh, no fresh SOL/USD price to convert with');
+      return [];
+    }
+
+    // Tracked mints come first so the cap never drops them
+    const trackedTokens =
+      this.mode === 'search' ? [] : await this.getTokensData(this.watchlist.getMints());
+    const discoveredTokens = this.mode === 'tracked' ? [] : await this.discoverTokens(solUsd);
+
+    const limited = [...trackedTokens, ...discoveredTokens].slice(0, MAX_TOTAL_TOKENS);
+    logger.info(
+      `DexScreener (${this.mode}): Fetched ${limited.length} unique tokens (capped), ${trackedTokens.length} from tracked mints`
+    );
+    return limited;
+  }
+
+  private async discoverTokens(solUsd: number): Promise<Token[]> {
     const allTokens: Token[] = [];
+    // Deduplicate by pair so every pool of a token is kept for the aggregator
+    const seenPairs = new Set<string>();
     
     try {
       // Method 1: Get trending/popular pairs from Solana
@@ -125,47 +207,54 @@ export class DexScreenerClient {
       );
 
       if (trendingResponse.pairs) {
-        const trendingTokens = this.transformPairs(trendingResponse.pairs).slice(0, MAX_TOKENS_PER_QUERY);
+        const trendingTokens = this.transformPairs(trendingResponse.pairs, solUsd).slice(
+          0,
+          MAX_TOKENS_PER_QUERY
+        );
+        for (const token of trendingTokens) {
+          seenPairs.add(this.pairKey(token));
+        }
         allTokens.push(...trendingTokens);
       }
 
-      // Rate limit: wait 200ms
-      await new Promise((resolve) => setTimeout(resolve, 200));
+      await sleep(RATE_LIMIT_DELAY_MS);
     } catch (error) {
       logger.warn('Error fetching trending tokens from DexScreener:', error);
     }
 
-    // Method 2: Search for popular Solana meme coins
-    const queries = [
-      'SOL', 'USDC', 'BONK', 'WIF', 'POPCAT', 
-      'MYRO', 'SAMO', 'COPE', 'RAY', 'ORCA',
-      'JTO', 'PYTH', 'JUP', 'WEN', 'MEW'
-    ];
+    // Method 2: Search for the watchlist queries
+    const queries = this.watchlist.getQueries();
     
-    const seenAddresses = new Set<string>();
     for (const query of queries) {
       try {
         const tokens = await this.searchTokens(query);
         // Filter out duplicates
         for (const token of tokens.slice(0, MAX_TOKENS_PER_QUERY)) {
-          if (!seenAddresses.has(token.token_address.toLowerCase())) {
-            seenAddresses.add(token.token_address.toLowerCase());
+          const key = this.pairKey(token);
+          if (!seenPairs.has(key)) {
+            seenPairs.add(key);
             allTokens.push(token);
           }
         }
-        // Rate limit: 300 requests/min = 5 requests/sec, so wait 200ms between requests
-        await new Promise((resolve) => setTimeout(resolve, 200));
+        await sleep(RATE_LIMIT_DELAY_MS);
       } catch (error) {
         logger.error(`Error fetching popular tokens for ${query}:`, error);
       }
     }
 
-    const limited = allTokens.slice(0, MAX_TOTAL_TOKENS);
-    logger.info(`DexScreener: Fetched ${limited.length} unique tokens (capped)`);
-    return limited;
+    return allTokens;
   }
 
-  private transformPairs(pairs: DexScreenerPair[]): Token[] {
+  private pairKey(token: Token): string {
+    return (token.pools?.[0]?.pair_address || token.token_address).toLowerCase();
+  }
+
+  private transformPairs(pairs: DexScreenerPair[], solUsd: number | null): Token[] {
+    if (solUsd === null) {
+      // Refuse to publish USD figures converted with an unknown or stale rate
+      return [];
+    }
+
     return pairs
       .filter((pair) => {
         // Filter for Solana chain and valid pairs
@@ -177,12 +266,45 @@ export class DexScreenerClient {
         );
       })
       .map((pair) => {
-        const priceSol = parseFloat(pair.priceNative);
-        const volume24h = pair.volume?.h24 || 0;
-        const liquidity = pair.liquidity?.base || 0;
-        const marketCap = pair.fdv || volume24h * 10; // Estimate if not available
-        const transactionCount =
-          (pair.txns?.h24?.buys || 0) + (pair.txns?.h24?.sells || 0);
+        // priceNative is denominated in the quote token, which is only SOL for SOL pairs
+        const priceSol =
+          pair.quoteToken.address === SOL_MINT || !pair.priceUsd
+            ? parseFloat(pair.priceNative)
+            : parseFloat(pair.priceUsd) / solUsd;
+        const volume24h = (pair.volume?.h24 || 0) / solUsd;
+        const liquidity = (pair.liquidity?.usd || 0) / solUsd;
+        const marketCap = pair.fdv ? pair.fdv / solUsd : volume24h * 10; // Estimate if not available
+        const buyCount = pair.txns?.h24?.buys || 0;
+        const sellCount = pair.txns?.h24?.sells || 0;
+        const transactionCount = buyCount + sellCount;
+        const toSol = (usd?: number) => (usd === undefined ? undefined : usd / solUsd);
+        const lastUpdated = Date.now();
+
+        const pool: Pool = {
+          pair_address: pair.pairAddress,
+          dex: pair.dexId,
+          quote_token: {
+            address: pair.quoteToken.address,
+            symbol: pair.quoteToken.symbol,
+          },
+          price_sol: priceSol,
+          price_usd: pair.priceUsd ? parseFloat(pair.priceUsd) : undefined,
+          liquidity_sol: liquidity,
+          volume_sol: volume24h,
+          transaction_count: transactionCount,
+          price_5m_change: pair.priceChange?.m5,
+          price_1hr_change: pair.priceChange?.h1,
+          price_6hr_change: pair.priceChange?.h6,
+          price_24hr_change: pair.priceChange?.h24,
+          volume_5m_sol: toSol(pair.volume?.m5),
+          volume_1hr_sol: toSol(pair.volume?.h1),
+          volume_6hr_sol: toSol(pair.volume?.h6),
+          buy_count: buyCount,
+          sell_count: sellCount,
+          created_at: pair.pairCreatedAt,
+          source: 'dexscreener',
+          last_updated: lastUpdated,
+        };
 
         return {
           token_address: pair.baseToken.address,
@@ -190,15 +312,26 @@ export class DexScreenerClient {
           token_ticker: pair.baseToken.symbol,
           price_sol: priceSol,
           market_cap_sol: marketCap,
+          market_cap_estimated: !pair.fdv,
           volume_sol: volume24h,
           liquidity_sol: liquidity,
           transaction_count: transactionCount,
-          price_1hr_change: pair.priceChange?.h1,
-          price_24hr_change: pair.priceChange?.h24,
+          price_5m_change: pool.price_5m_change,
+          price_1hr_change: pool.price_1hr_change,
+          price_6hr_change: pool.price_6hr_change,
+          price_24hr_change: pool.price_24hr_change,
           price_7d_change: undefined, // DexScreener doesn't provide 7d
+          volume_5m_sol: pool.volume_5m_sol,
+          volume_1hr_sol: pool.volume_1hr_sol,
+          volume_6hr_sol: pool.volume_6hr_sol,
+          buy_count: buyCount,
+          sell_count: sellCount,
+          buy_sell_ratio: buySellRatio(buyCount, sellCount),
           protocol: pair.dexId,
+          created_at: pair.pairCreatedAt,
           source: 'dexscreener',
-          last_updated: Date.now(),
+          last_updated: lastUpdated,
+          pools: [pool],
         };
       });
   }
@@ -0,0 +1,342 @@
+import axios, { AxiosInstance } from 'axios';
+import { Token, Pool } from '../../types/token';
+import { TokenSource, SourceCapabilities } from './source';
+import { cacheService } from '../cache';
+import { buySellRatio } from '../pools';
+import { retryWithBackoff } from '../../utils/retry';
+import { RateLimiter } from '../../utils/ratelimit';
+import logger from '../../utils/logger';
+
+const GECKOTERMINAL_PAGES = parseInt(process.env.GECKOTERMINAL_PAGES || '1', 10);
+const GECKOTERMINAL_MAX_TOKENS = parseInt(process.env.GECKOTERMINAL_MAX_TOKENS || '200', 10);
+// Free tier allows 30 requests/minute
+const REQUEST_DELAY_MS = parseInt(process.env.GECKOTERMINAL_REQUEST_DELAY_MS || '2100', 10);
+// Daily candles are fetched per pool, so only the largest pools get a 7d change
+const PRICE_7D_POOLS = parseInt(process.env.GECKOTERMINAL_7D_POOLS || '10', 10);
+const PRICE_7D_CACHE_TTL = 3600; // 1 hour
+
+const INCLUDE = 'base_token,quote_token,dex';
+
+type Windowed<T> = Partial<Record<'m5' | 'm15' | 'm30' | 'h1' | 'h6' | 'h24', T>>;
+
+interface GeckoTerminalRelationship {
+  data?: { id: string; type: string } | null;
+}
+
+interface GeckoTerminalPool {
+  id: string;
+  type: 'pool';
+  attributes: {
+    address: string;
+    name: string;
+    base_token_price_usd: string | null;
+    base_token_price_native_currency: string | null;
+    pool_created_at: string | null;
+    fdv_usd: string | null;
+    market_cap_usd: string | null;
+    price_change_percentage: Windowed<string | null>;
+    transactions: Windowed<{ buys: number; sells: number }>;
+    volume_usd: Windowed<string | null>;
+    reserve_in_usd: string | null;
+  };
+  relationships: {
+    base_token: GeckoTerminalRelationship;
+    quote_token: GeckoTerminalRelationship;
+    dex: GeckoTerminalRelationship;
+  };
+}
+
+interface GeckoTerminalIncluded {
+  id: string;
+  type: 'token' | 'dex' | string;
+  attributes: {
+    address?: string;
+    name?: string;
+    symbol?: string;
+  };
+}
+
+interface GeckoTerminalPoolsResponse {
+  data: GeckoTerminalPool[];
+  included?: GeckoTerminalIncluded[];
+}
+
+interface GeckoTerminalOhlcvResponse {
+  data: {
+    attributes: {
+      // [timestamp, open, high, low, close, volume], newest first
+      ohlcv_list: number[][];
+    };
+  };
+}
+
+// The budget is per client IP, so every GeckoTerminalClient in the process shares one limiter
+export const geckoTerminalLimiter = new RateLimiter(REQUEST_DELAY_MS);
+
+export class GeckoTerminalClient implements TokenSource {
+  readonly name = 'geckoterminal';
+  readonly capabilities: SourceCapabilities = {
+    search: true,
+    tokenLookup: true,
+    marketData: true,
+  };
+  private client: AxiosInstance;
+  private baseURL = 'https://api.geckoterminal.com/api/v2';
+  private limiter: RateLimiter;
+  private backfill?: Promise<void>; // Set while 7d changes are being fetched
+
+  constructor(limiter: RateLimiter = geckoTerminalLimiter) {
+    this.limiter = limiter;
+    this.client = axios.create({
+      baseURL: this.baseURL,
+      timeout: 10000,
+      headers: {
+        Accept: 'application/json;version=20230302',
+      },
+    });
+  }
+
+  async searchTokens(query: string): Promise<Token[]> {
+    try {
+      const response = await this.fetchPools(
+        `/search/pools?query=${encodeURIComponent(query)}&network=solana&include=${INCLUDE}`
+      );
+      return this.transformPools(response);
+    } catch (error) {
+      logger.error('GeckoTerminal search error:', error);
+      return [];
+    }
+  }
+
+  async getTokenData(tokenAddress: string): Promise<Token[]> {
+    try {
+      const response = await this.fetchPools(
+        `/networks/solana/tokens/${encodeURIComponent(tokenAddress)}/pools?include=${INCLUDE}`
+      );
+      return this.transformPools(response);
+    } catch (error) {
+      logger.error('GeckoTerminal token data error:', error);
+      return [];
+    }
+  }
+
+  async getPopularTokens(): Promise<Token[]> {
+    const allTokens: Token[] = [];
+    // Deduplicate by pool so every pool of a token is kept for the aggregator
+    const seenPools = new Set<string>();
+    const endpoints = ['trending_pools', 'pools'];
+
+    for (const endpoint of endpoints) {
+      for (let page = 1; page <= GECKOTERMINAL_PAGES; page++) {
+        try {
+          const response = await this.fetchPools(
+            `/networks/solana/${endpoint}?include=${INCLUDE}&page=${page}`
+          );
+          for (const token of this.transformPools(response)) {
+            const key = token.pools![0].pair_address.toLowerCase();
+            if (!seenPools.has(key)) {
+              seenPools.add(key);
+              allTokens.push(token);
+            }
+          }
+        } catch (error) {
+          logger.warn(`Error fetching ${endpoint} page ${page} from GeckoTerminal:`, error);
+        }
+      }
+    }
+
+    const limited = allTokens.slice(0, GECKOTERMINAL_MAX_TOKENS);
+    await this.addPrice7dChanges(limited);
+
+    logger.info(`GeckoTerminal: Fetched ${limited.length} unique tokens (capped)`);
+    return limited;
+  }
+
+  async getPrice7dChange(poolAddress: string): Promise<number | undefined> {
+    const response = await retryWithBackoff<GeckoTerminalOhlcvResponse>(
+      async () => {
+        const res = await this.limiter.schedule(() =>
+          this.client.get(`/networks/solana/pools/${poolAddress}/ohlcv/day?limit=8`)
+        );
+        return res.data;
+      },
+      {
+        maxRetries: 2,
+        baseDelay: 1000,
+      }
+    );
+
+    const candles = response?.data?.attributes?.ohlcv_list || [];
+    // Need today's candle plus the one from 7 days earlier
+    if (candles.length < 8) {
+      return undefined;
+    }
+
+    const latestClose = candles[0][4];
+    const weekAgoClose = candles[7][4];
+    return weekAgoClose > 0 ? ((latestClose - weekAgoClose) / weekAgoClose) * 100 : undefined;
+  }
+
+  /**
+   * Fills in 7d changes that are already cached. Missing ones cost a candle
+   * request per pool, so they are fetched in the background and picked up by
+   * a later refresh instead of holding this one up.
+   */
+  private async addPrice7dChanges(tokens: Token[]): Promise<void> {
+    const candidates = [...tokens]
+      .sort((a, b) => b.liquidity_sol - a.liquidity_sol)
+      .slice(0, PRICE_7D_POOLS);
+
+    const missing: string[] = [];
+    for (const token of candidates) {
+      const poolAddress = token.pools![0].pair_address;
+      const cached = await cacheService.get<{ change: number | null }>(
+        this.price7dCacheKey(poolAddress)
+      );
+      if (cached) {
+        token.price_7d_change = cached.change ?? undefined;
+      } else {
+        missing.push(poolAddress);
+      }
+    }
+
+    if (missing.length > 0 && !this.backfill) {
+      this.backfill = this.backfillPrice7dChanges(missing).finally(() => {
+        this.backfill = undefined;
+      });
+    }
+  }
+
+  private async backfillPrice7dChanges(poolAddresses: string[]): Promise<void> {
+    for (const poolAddress of poolAddresses) {
+      try {
+        const change = await this.getPrice7dChange(poolAddress);
+        await cacheService.set(
+          this.price7dCacheKey(poolAddress),
+          { change: change ?? null },
+          PRICE_7D_CACHE_TTL
+        );
+      } catch (error) {
+        logger.debug(`GeckoTerminal 7d change unavailable for pool ${poolAddress}:`, error);
+      }
+    }
+  }
+
+  private price7dCacheKey(poolAddress: string): string {
+    return cacheService.generateKey('geckoterminal', '7d', poolAddress);
+  }
+
+  private async fetchPools(path: string): Promise<GeckoTerminalPoolsResponse> {
+    return retryWithBackoff<GeckoTerminalPoolsResponse>(
+      async () => {
+        const res = await this.limiter.schedule(() => this.client.get(path));
+        return res.data;
+      },
+      {
+        maxRetries: 3,
+        baseDelay: 2000,
+      }
+    );
+  }
+
+  private transformPools(response: GeckoTerminalPoolsResponse): Token[] {
+    const included = new Map<string, GeckoTerminalIncluded>();
+    for (const item of response?.included || []) {
+      included.set(item.id, item);
+    }
+
+    const tokens: Token[] = [];
+    for (const pool of response?.data || []) {
+      const attrs = pool.attributes;
+      const baseTokenId = pool.relationships?.base_token?.data?.id;
+      const baseToken = baseTokenId ? included.get(baseTokenId) : undefined;
+      // Relationship ids look like "solana_<address>"
+      if (!baseTokenId?.startsWith('solana_')) {
+        continue;
+      }
+
+      const priceSol = toNumber(attrs.base_token_price_native_currency);
+      const priceUsd = toNumber(attrs.base_token_price_usd);
+      if (!priceSol || !priceUsd) {
+        continue;
+      }
+
+      // The pool quotes both prices, which gives SOL/USD without a second lookup
+      const solUsd = priceUsd / priceSol;
+      const usdToSol = (value: string | null | undefined) => (toNumber(value) || 0) / solUsd;
+      const usdToSolOptional = (value: string | null | undefined) =>
+        toNumber(value) === undefined ? undefined : usdToSol(value);
+      const buyCount = attrs.transactions?.h24?.buys || 0;
+      const sellCount = attrs.transactions?.h24?.sells || 0;
+      const transactionCount = buyCount + sellCount;
+      const dex = pool.relationships?.dex?.data?.id || 'unknown';
+      const quoteTokenId = pool.relationships?.quote_token?.data?.id;
+      const quoteToken = quoteTokenId ? included.get(quoteTokenId) : undefined;
+      const createdAt = attrs.pool_created_at ? Date.parse(attrs.pool_created_at) : NaN;
+      const lastUpdated = Date.now();
+
+      const poolData: Pool = {
+        pair_address: attrs.address,
+        dex,
+        quote_token: {
+          address: quoteToken?.attributes.address || quoteTokenId?.slice('solana_'.length) || '',
+          symbol: quoteToken?.attributes.symbol || attrs.name.split(' / ')[1] || '',
+        },
+        price_sol: priceSol,
+        price_usd: priceUsd,
+        liquidity_sol: usdToSol(attrs.reserve_in_usd),
+        volume_sol: usdToSol(attrs.volume_usd?.h24),
+        transaction_count: transactionCount,
+        price_5m_change: toNumber(attrs.price_change_percentage?.m5),
+        price_1hr_change: toNumber(attrs.price_change_percentage?.h1),
+        price_6hr_change: toNumber(attrs.price_change_percentage?.h6),
+        price_24hr_change: toNumber(attrs.price_change_percentage?.h24),
+        volume_5m_sol: usdToSolOptional(attrs.volume_usd?.m5),
+        volume_1hr_sol: usdToSolOptional(attrs.volume_usd?.h1),
+        volume_6hr_sol: usdToSolOptional(attrs.volume_usd?.h6),
+        buy_count: buyCount,
+        sell_count: sellCount,
+        created_at: isNaN(createdAt) ? undefined : createdAt,
+        source: 'geckoterminal',
+        last_updated: lastUpdated,
+      };
+
+      tokens.push({
+        token_address: baseToken?.attributes.address || baseTokenId.slice('solana_'.length),
+        token_name: baseToken?.attributes.name || attrs.name.split(' / ')[0],
+        token_ticker: baseToken?.attributes.symbol || attrs.name.split(' / ')[0],
+        price_sol: priceSol,
+        market_cap_sol: usdToSol(attrs.market_cap_usd ?? attrs.fdv_usd),
+        volume_sol: poolData.volume_sol,
+        liquidity_sol: poolData.liquidity_sol,
+        transaction_count: transactionCount,
+        price_5m_change: poolData.price_5m_change,
+        price_1hr_change: poolData.price_1hr_change,
+        price_6hr_change: poolData.price_6hr_change,
+        price_24hr_change: poolData.price_24hr_change,
+        price_7d_change: undefined, // Filled in from cached daily candles for the largest pools
+        volume_5m_sol: poolData.volume_5m_sol,
+        volume_1hr_sol: poolData.volume_1hr_sol,
+        volume_6hr_sol: poolData.volume_6hr_sol,
+        buy_count: buyCount,
+        sell_count: sellCount,
+        buy_sell_ratio: buySellRatio(buyCount, sellCount),
+        protocol: dex,
+        created_at: poolData.created_at,
+        source: 'geckoterminal',
+        last_updated: lastUpdated,
+        pools: [poolData],
+      });
+    }
+
+    return tokens;
+  }
+}
+
+function toNumber(value: string | number | null | undefined): number | undefined {
+  if (value === null || value === undefined || value === '') {
+    return undefined;
+  }
+  const parsed = typeof value === 'number' ? value : parseFloat(value);
+  return isNaN(parsed) ? undefined : parsed;
+}
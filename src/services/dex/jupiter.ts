@@ -1,10 +1,15 @@
 import axios, { AxiosInstance } from 'axios';
 import { Token } from '../../types/token';
-import { retryWithBackoff } from '../../utils/retry';
+import { TokenSource, SourceCapabilities } from './source';
+import { SolPriceOracle, solPriceOracle } from '../oracle';
+import { WatchlistService, watchlistService } from '../watchlist';
+import { retryWithBackoff, sleep } from '../../utils/retry';
 import logger from '../../utils/logger';
 
 const TOKENS_PER_QUERY = parseInt(process.env.JUPITER_TOKENS_PER_QUERY || '20', 10);
 const JUPITER_MAX_TOKENS = parseInt(process.env.JUPITER_MAX_TOKENS || '200', 10);
+// The price endpoint accepts up to 100 comma-separated mints per call
+const PRICE_BATCH_SIZE = parseInt(process.env.JUPITER_PRICE_BATCH_SIZE || '100', 10);
 
 interface JupiterToken {
   address: string;
@@ -19,17 +24,32 @@ interface JupiterToken {
 
 interface JupiterPriceData {
   id: string;
-  mintSymbol: string;
-  vsToken: string;
-  vsTokenSymbol: string;
-  price: number;
+  type?: string;
+  price: string | number;
 }
 
-export class JupiterClient {
+interface JupiterPriceResponse {
+  data: Record<string, JupiterPriceData | null>;
+}
+
+export class JupiterClient implements TokenSource {
+  readonly name = 'jupiter';
+  readonly capabilities: SourceCapabilities = {
+    search: true,
+    tokenLookup: false,
+    marketData: false, // Price only
+  };
   private client: AxiosInstance;
   private baseURL = 'https://lite-api.jup.ag';
-
-  constructor() {
+  private oracle: SolPriceOracle;
+  private watchlist: WatchlistService;
+
+  constructor(
+    oracle: SolPriceOracle = solPriceOracle,
+    watchlist: WatchlistService = watchlistService
+  ) {
+    this.oracle = oracle;
+    this.watchlist = watchlist;
     this.client = axios.create({
       baseURL: this.baseURL,
       timeout: 10000,
@@ -41,23 +61,8 @@ export class JupiterClient {
 
   async searchTokens(query: string): Promise<Token[]> {
     try {
-      const response = await retryWithBackoff<JupiterToken[]>(
-        async () => {
-          const res = await this.client.get(`/tokens/v2/search?query=${encodeURIComponent(query)}`);
-          return res.data;
-        },
-        {
-          maxRetries: 3,
-          baseDelay: 1000,
-        }
-      );
-
-      const tokens = (response || []).filter((token) => Boolean(token.address));
-      const tokensWithPrice = await Promise.all(
-        tokens.slice(0, TOKENS_PER_QUERY).map((token) => this.enrichTokenWithPrice(token))
-      );
-
-      return tokensWithPrice.filter((token) => token !== null) as Token[];
+      const tokens = await this.searchTokenList(query);
+      return await this.buildTokens(tokens.slice(0, TOKENS_PER_QUERY));
     } catch (error) {
       logger.error('Jupiter search error:', error);
       return [];
@@ -65,79 +70,126 @@ export class JupiterClient {
   }
 
   async getPopularTokens(): Promise<Token[]> {
-    // Search for popular Solana tokens
-    const queries = [
-      'SOL', 'USDC', 'BONK', 'WIF', 'POPCAT',
-      'MYRO', 'SAMO', 'COPE', 'RAY', 'ORCA',
-      'JTO', 'PYTH', 'JUP', 'WEN', 'MEW',
-      'FIDA', 'STEP', 'MEDIA', 'COPE', 'ROPE'
-    ];
-    const allTokens: Token[] = [];
+    // Search for the watchlist queries; Jupiter search also resolves exact mint addresses
+    const queries = [...this.watchlist.getMints(), ...this.watchlist.getQueries()];
+    const candidates: JupiterToken[] = [];
     const seenAddresses = new Set<string>();
 
+    // Collect mints across all queries first so prices can be fetched in batches
     for (const query of queries) {
       try {
-        const tokens = await this.searchTokens(query);
+        const tokens = await this.searchTokenList(query);
         // Filter out duplicates
         for (const token of tokens.slice(0, TOKENS_PER_QUERY)) {
-          if (!seenAddresses.has(token.token_address.toLowerCase())) {
-            seenAddresses.add(token.token_address.toLowerCase());
-            allTokens.push(token);
+          if (!seenAddresses.has(token.address.toLowerCase())) {
+            seenAddresses.add(token.address.toLowerCase());
+            candidates.push(token);
           }
         }
         // Rate limit: wait between requests
-        await new Promise((resolve) => setTimeout(resolve, 200));
+        await sleep(200);
       } catch (error) {
         logger.error(`Error fetching popular tokens for ${query}:`, error);
       }
     }
 
+    let allTokens: Token[] = [];
+    try {
+      allTokens = await this.buildTokens(candidates);
+    } catch (error) {
+      logger.error('Error pricing Jupiter tokens:', error);
+    }
+
     const limited = allTokens.slice(0, JUPITER_MAX_TOKENS);
     logger.info(`Jupiter: Fetched ${limited.length} unique tokens (capped)`);
     return limited;
   }
 
-  private async enrichTokenWithPrice(token: JupiterToken): Promise<Token | null> {
-    try {
-      // Get price data for the token
-      const priceResponse = await retryWithBackoff<Record<string, JupiterPriceData>>(
-        async () => {
-          const res = await this.client.get(`/price/v2?ids=${token.address}`);
-          return res.data;
-        },
+  private async searchTokenList(query: string): Promise<JupiterToken[]> {
+    const response = await retryWithBackoff<JupiterToken[]>(
+      async () => {
+        const res = await this.client.get(`/tokens/v2/search?query=${encodeURIComponent(query)}`);
+        return res.data;
+      },
+      {
+        maxRetries: 3,
+        baseDelay: 1000,
+      }
+    );
+
+    return (response || []).filter((token) => Boolean(token.address));
+  }
+
+  private async buildTokens(tokens: JupiterToken[]): Promise<Token[]> {
+    if (tokens.length === 0) {
+      return [];
+    }
+
+    // Jupiter only quotes USD, so every price needs a trustworthy SOL/USD rate
+    const solUsd = await this.oracle.getFreshPrice();
+    if (solUsd === null) {
+      logger.warn('Jupiter: skipping results, no fresh SOL/USD price to convert with');
+      return [];
+    }
+
+    const prices = await this.fetchPrices(tokens.map((token) => token.address));
+
+    return tokens.flatMap((token) => {
+      const priceUsd = prices.get(token.address);
+      if (!priceUsd) {
+        return [];
+      }
+
+      return [
         {
-          maxRetries: 2,
-          baseDelay: 500,
-        }
-      );
+          token_address: token.address,
+          token_name: token.name,
+          token_ticker: token.symbol,
+          price_sol: priceUsd / solUsd, // Convert USD price to SOL
+          market_cap_sol: 0, // Jupiter doesn't provide market cap
+          volume_sol: 0, // Jupiter doesn't provide volume
+          liquidity_sol: 0, // Jupiter doesn't provide liquidity
+          transaction_count: 0,
+          protocol: 'Jupiter',
+          source: 'jupiter',
+          last_updated: Date.now(),
+        },
+      ];
+    });
+  }
+
+  private async fetchPrices(mints: string[]): Promise<Map<string, number>> {
+    const prices = new Map<string, number>();
 
-      const priceData = priceResponse?.[token.address];
-      if (!priceData || !priceData.price) {
-        return null;
+    for (let i = 0; i < mints.length; i += PRICE_BATCH_SIZE) {
+      const batch = mints.slice(i, i + PRICE_BATCH_SIZE);
+      try {
+        const response = await retryWithBackoff<JupiterPriceResponse>(
+          async () => {
+            const res = await this.client.get(`/price/v2?ids=${batch.join(',')}`);
+            return res.data;
+          },
+          {
+            maxRetries: 2,
+            baseDelay: 500,
+          }
+        );
+
+        for (const mint of batch) {
+          const price = Number(response?.data?.[mint]?.price);
+          if (price > 0) {
+            prices.set(mint, price);
+          }
+        }
+      } catch (error) {
+        logger.error(`Error fetching Jupiter prices for ${batch.length} mints:`, error);
       }
 
-      // Convert price to SOL (assuming price is in USD, and SOL is ~$100)
-      // This is a simplification - in production, you'd fetch actual SOL price
-      const solPrice = 100; // Approximate SOL price in USD
-      const priceSol = priceData.price / solPrice;
-
-      return {
-        token_address: token.address,
-        token_name: token.name,
-        token_ticker: token.symbol,
-        price_sol: priceSol,
-        market_cap_sol: 0, // Jupiter doesn't provide market cap
-        volume_sol: 0, // Jupiter doesn't provide volume
-        liquidity_sol: 0, // Jupiter doesn't provide liquidity
-        transaction_count: 0,
-        protocol: 'Jupiter',
-        source: 'jupiter',
-        last_updated: Date.now(),
-      };
-    } catch (error) {
-      logger.error(`Error enriching token ${token.address}:`, error);
-      return null;
+      if (i + PRICE_BATCH_SIZE < mints.length) {
+        await sleep(200);
+      }
     }
+
+    return prices;
   }
 }
-
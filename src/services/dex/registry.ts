@@ -0,0 +1,128 @@
+import { TokenSource } from './source';
+import { DexScreenerClient } from './dexscreener';
+import { JupiterClient } from './jupiter';
+import { GeckoTerminalClient } from './geckoterminal';
+import logger from '../../utils/logger';
+
+export interface SourceOptions {
+  enabled?: boolean;
+  weight?: number;
+}
+
+export interface RegisteredSource {
+  source: TokenSource;
+  enabled: boolean;
+  weight: number;
+}
+
+export interface SourceConfig {
+  enabledSources?: string[]; // When set, only these sources are enabled
+  weights: Record<string, number>;
+}
+
+// ENABLED_SOURCES=dexscreener,jupiter
+// SOURCE_WEIGHTS=dexscreener:1,jupiter:0.5
+export function loadSourceConfig(env: NodeJS.ProcessEnv = process.env): SourceConfig {
+  const enabledSources = env.ENABLED_SOURCES
+    ? env.ENABLED_SOURCES.split(',')
+        .map((name) => name.trim().toLowerCase())
+        .filter(Boolean)
+    : undefined;
+
+  const weights: Record<string, number> = {};
+  for (const entry of (env.SOURCE_WEIGHTS || '').split(',')) {
+    const [name, value] = entry.split(':').map((part) => part.trim());
+    const weight = parseFloat(value);
+    if (name && !isNaN(weight) && weight >= 0) {
+      weights[name.toLowerCase()] = weight;
+    }
+  }
+
+  return { enabledSources, weights };
+}
+
+export class SourceRegistry {
+  private sources = new Map<string, RegisteredSource>();
+  private config: SourceConfig;
+
+  constructor(config: SourceConfig = loadSourceConfig()) {
+    this.config = config;
+  }
+
+  register(source: TokenSource, options: SourceOptions = {}): void {
+    const name = source.name.toLowerCase();
+    if (this.sources.has(name)) {
+      throw new Error(`Token source "${source.name}" is already registered`);
+    }
+
+    const enabledByConfig = this.config.enabledSources
+      ? this.config.enabledSources.includes(name)
+      : true;
+
+    this.sources.set(name, {
+      source,
+      enabled: (options.enabled ?? true) && enabledByConfig,
+      weight: this.config.weights[name] ?? options.weight ?? 1,
+    });
+  }
+
+  unregister(name: string): boolean {
+    return this.sources.delete(name.toLowerCase());
+  }
+
+  get(name: string): RegisteredSource | undefined {
+    return this.sources.get(name.toLowerCase());
+  }
+
+  setEnabled(name: string, enabled: boolean): void {
+    const entry = this.requireSource(name);
+    entry.enabled = enabled;
+  }
+
+  setWeight(name: string, weight: number): void {
+    if (weight < 0) {
+      throw new Error('Source weight must be non-negative');
+    }
+    const entry = this.requireSource(name);
+    entry.weight = weight;
+  }
+
+  getWeight(name: string): number {
+    return this.get(name)?.weight ?? 1;
+  }
+
+  list(): RegisteredSource[] {
+    return Array.from(this.sources.values());
+  }
+
+  getEnabled(): RegisteredSource[] {
+    return this.list().filter((entry) => entry.enabled && entry.weight > 0);
+  }
+
+  private requireSource(name: string): RegisteredSource {
+    const entry = this.get(name);
+    if (!entry) {
+      throw new Error(`Unknown token source "${name}"`);
+    }
+    return entry;
+  }
+}
+
+export function createDefaultRegistry(config: SourceConfig = loadSourceConfig()): SourceRegistry {
+  const registry = new SourceRegistry(config);
+
+  registry.register(new DexScreenerClient());
+
+  // ENABLE_JUPITER predates ENABLED_SOURCES and is still honoured
+  const enableJupiter = process.env.ENABLE_JUPITER !== 'false';
+  if (!enableJupiter) {
+    logger.info('Jupiter source disabled via ENABLE_JUPITER flag');
+  }
+  registry.register(new JupiterClient(), { enabled: enableJupiter });
+  registry.register(new GeckoTerminalClient());
+
+  return registry;
+}
+
+// Shared by every TokenAggregator, so each source's client and request budget exist once
+export const sourceRegistry = createDefaultRegistry();
@@ -0,0 +1,16 @@
+import { Token } from '../../types/token';
+
+export interface SourceCapabilities {
+  search: boolean; // Supports free-text search
+  tokenLookup: boolean; // Supports lookup by token address
+  marketData: boolean; // Provides volume, liquidity and market cap (not just price)
+}
+
+export interface TokenSource {
+  readonly name: string;
+  readonly capabilities: SourceCapabilities;
+  getPopularTokens(): Promise<Token[]>;
+  searchTokens?(query: string): Promise<Token[]>;
+  getTokenData?(tokenAddress: string): Promise<Token[]>;
+  getTokensData?(tokenAddresses: string[]): Promise<Token[]>; // Many addresses per request
+}
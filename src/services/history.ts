@@ -0,0 +1,241 @@
+import { Token } from '../types/token';
+import { CacheService, cacheService } from './cache';
+import logger from '../utils/logger';
+
+// How long samples are kept (seconds)
+const RETENTION = parseInt(process.env.SNAPSHOT_RETENTION || '86400', 10);
+// Samples older than this (seconds) are thinned to one per downsample interval
+const DOWNSAMPLE_AFTER = parseInt(process.env.SNAPSHOT_DOWNSAMPLE_AFTER || '3600', 10);
+const DOWNSAMPLE_INTERVAL = parseInt(process.env.SNAPSHOT_DOWNSAMPLE_INTERVAL || '300', 10);
+// Per-token capacity of the in-memory ring buffer (24h of 30s refreshes)
+const MEMORY_SAMPLES = parseInt(process.env.SNAPSHOT_MEMORY_SAMPLES || '2880', 10);
+
+export interface TokenSample {
+  timestamp: number;
+  price_sol: number;
+  volume_sol: number; // Rolling 24h volume at sample time
+  liquidity_sol: number;
+  transaction_count: number; // Rolling 24h
+}
+
+export interface SnapshotStoreOptions {
+  retentionSeconds: number;
+  downsampleAfterSeconds: number;
+  downsampleIntervalSeconds: number;
+  memorySamples: number;
+}
+
+/**
+ * Fixed-capacity buffer that overwrites its oldest entry once full.
+ */
+class RingBuffer<T> {
+  private items: T[] = [];
+  private start = 0;
+  private capacity: number;
+
+  constructor(capacity: number) {
+    this.capacity = Math.max(1, capacity);
+  }
+
+  push(item: T): void {
+    if (this.items.length < this.capacity) {
+      this.items.push(item);
+      return;
+    }
+    this.items[this.start] = item;
+    this.start = (this.start + 1) % this.capacity;
+  }
+
+  toArray(): T[] {
+    return [...this.items.slice(this.start), ...this.items.slice(0, this.start)];
+  }
+
+  replace(items: T[]): void {
+    this.items = items.slice(-this.capacity);
+    this.start = 0;
+  }
+}
+
+/**
+ * Per-token time series of price, volume and liquidity, recorded on every
+ * scheduled refresh. Samples live in Redis sorted sets (scored by timestamp)
+ * when Redis is available; an in-process ring buffer per token is always kept
+ * as well, so history survives Redis outages for as long as the process runs.
+ */
+export class SnapshotStore {
+  private cache: CacheService;
+  private options: SnapshotStoreOptions;
+  private buffers = new Map<string, RingBuffer<TokenSample>>();
+
+  constructor(cache: CacheService = cacheService, options: Partial<SnapshotStoreOptions> = {}) {
+    this.cache = cache;
+    this.options = {
+      retentionSeconds: RETENTION,
+      downsampleAfterSeconds: DOWNSAMPLE_AFTER,
+      downsampleIntervalSeconds: DOWNSAMPLE_INTERVAL,
+      memorySamples: MEMORY_SAMPLES,
+      ...options,
+    };
+  }
+
+  async record(tokens: Token[], timestamp: number = Date.now()): Promise<void> {
+    const samples = tokens.map((token) => ({
+      address: token.token_address.toLowerCase(),
+      sample: {
+        timestamp,
+        price_sol: token.price_sol,
+        volume_sol: token.volume_sol,
+        liquidity_sol: token.liquidity_sol,
+        transaction_count: token.transaction_count,
+      } as TokenSample,
+    }));
+
+    for (const { address, sample } of samples) {
+      let buffer = this.buffers.get(address);
+      if (!buffer) {
+        buffer = new RingBuffer<TokenSample>(this.options.memorySamples);
+        this.buffers.set(address, buffer);
+      }
+      buffer.push(sample);
+    }
+
+    const redis = this.cache.getRedisClient();
+    if (!redis || samples.length === 0) {
+      return;
+    }
+
+    try {
+      const expiredBefore = timestamp - this.options.retentionSeconds * 1000;
+      const pipeline = redis.pipeline();
+      for (const { address, sample } of samples) {
+        const key = this.seriesKey(address);
+        pipeline.zadd(key, sample.timestamp, JSON.stringify(sample));
+        pipeline.zremrangebyscore(key, '-inf', `(${expiredBefore}`);
+        pipeline.expire(key, this.options.retentionSeconds);
+      }
+      pipeline.sadd(this.indexKey(), ...samples.map(({ address }) => address));
+      await pipeline.exec();
+    } catch (error) {
+      logger.warn('Failed to persist snapshots to Redis, keeping them in memory only:', error);
+    }
+  }
+
+  /**
+   * Samples for a token in ascending time order, optionally limited to
+   * [from, to] (timestamps in ms, inclusive).
+   */
+  async getSamples(tokenAddress: string, from?: number, to?: number): Promise<TokenSample[]> {
+    const address = tokenAddress.toLowerCase();
+
+    const redis = this.cache.getRedisClient();
+    if (redis) {
+      try {
+        const members = await redis.zrangebyscore(
+          this.seriesKey(address),
+          from ?? '-inf',
+          to ?? '+inf'
+        );
+        return members.map((member) => JSON.parse(member) as TokenSample);
+      } catch (error) {
+        logger.debug(`Redis snapshot read failed for ${address}, using memory:`, error);
+      }
+    }
+
+    return (this.buffers.get(address)?.toArray() || []).filter(
+      (sample) =>
+        (from === undefined || sample.timestamp >= from) &&
+        (to === undefined || sample.timestamp <= to)
+    );
+  }
+
+  /**
+   * Drops samples past retention and keeps only the last sample per
+   * downsample interval for samples older than the downsample threshold.
+   * Run periodically from the scheduler.
+   */
+  async downsample(now: number = Date.now()): Promise<void> {
+    const expiredBefore = now - this.options.retentionSeconds * 1000;
+    const thinBefore = now - this.options.downsampleAfterSeconds * 1000;
+
+    for (const [address, buffer] of this.buffers.entries()) {
+      const kept = this.thin(
+        buffer.toArray().filter((sample) => sample.timestamp >= expiredBefore),
+        thinBefore
+      );
+      if (kept.length === 0) {
+        this.buffers.delete(address);
+      } else {
+        buffer.replace(kept);
+      }
+    }
+
+    const redis = this.cache.getRedisClient();
+    if (!redis) {
+      return;
+    }
+
+    try {
+      const addresses = await redis.smembers(this.indexKey());
+      for (const address of addresses) {
+        const key = this.seriesKey(address);
+        await redis.zremrangebyscore(key, '-inf', `(${expiredBefore}`);
+
+        const members = await redis.zrangebyscore(key, '-inf', `(${thinBefore}`);
+        const kept = new Set(
+          this.thin(
+            members.map((member) => JSON.parse(member) as TokenSample),
+            thinBefore
+          ).map((sample) => sample.timestamp)
+        );
+        const removed = members.filter(
+          (member) => !kept.has((JSON.parse(member) as TokenSample).timestamp)
+        );
+        if (removed.length > 0) {
+          await redis.zrem(key, ...removed);
+        }
+
+        if ((await redis.zcard(key)) === 0) {
+          await redis.srem(this.indexKey(), address);
+        }
+      }
+      logger.debug(`Downsampled snapshots for ${addresses.length} token(s)`);
+    } catch (error) {
+      logger.warn('Failed to downsample snapshots in Redis:', error);
+    }
+  }
+
+  getTrackedTokenCount(): number {
+    return this.buffers.size;
+  }
+
+  private thin(samples: TokenSample[], thinBefore: number): TokenSample[] {
+    const interval = this.options.downsampleIntervalSeconds * 1000;
+    const buckets = new Map<number, TokenSample>();
+    const recent: TokenSample[] = [];
+
+    for (const sample of samples) {
+      if (sample.timestamp >= thinBefore) {
+        recent.push(sample);
+        continue;
+      }
+      // Volumes are rolling 24h figures, so the last sample in a bucket is representative
+      const bucket = Math.floor(sample.timestamp / interval);
+      const existing = buckets.get(bucket);
+      if (!existing || sample.timestamp > existing.timestamp) {
+        buckets.set(bucket, sample);
+      }
+    }
+
+    return [...Array.from(buckets.values()), ...recent].sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  private seriesKey(address: string): string {
+    return this.cache.generateKey('history', address);
+  }
+
+  private indexKey(): string {
+    return this.cache.generateKey('history', 'index');
+  }
+}
+
+export const snapshotStore = new SnapshotStore();
@@ -0,0 +1,36 @@
+import { Token } from '../types/token';
+import logger from '../utils/logger';
+
+/**
+ * Reports token addresses the aggregator has not returned before. The first
+ * call only records what is already listed, so a restart doesn't announce
+ * every known token as new.
+ */
+export class NewListingDetector {
+  private seen = new Set<string>();
+  private primed = false;
+
+  detect(tokens: Token[]): Token[] {
+    const fresh: Token[] = [];
+
+    for (const token of tokens) {
+      const key = token.token_address.toLowerCase();
+      if (this.seen.has(key)) {
+        continue;
+      }
+      this.seen.add(key);
+      if (this.primed) {
+        fresh.push(token);
+      }
+    }
+
+    if (!this.primed) {
+      this.primed = true;
+      logger.info(`New listing detector primed with ${this.seen.size} known tokens`);
+    } else if (fresh.length > 0) {
+      logger.info(`Detected ${fresh.length} new listing(s)`);
+    }
+
+    return fresh;
+  }
+}
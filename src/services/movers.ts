@@ -0,0 +1,128 @@
+import { Token } from '../types/token';
+import { SnapshotStore, snapshotStore, TokenSample } from './history';
+
+export type MoverWindow = '5m' | '1h' | '24h';
+export type MoverDirection = 'up' | 'down';
+
+export const MOVER_WINDOWS: Record<MoverWindow, number> = {
+  '5m': 5 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '24h': 24 * 60 * 60 * 1000,
+};
+
+// History must span at least this share of the window to stand in for an upstream change
+const MIN_HISTORY_COVERAGE = 0.5;
+// Growth beyond this percentage stops adding to the score
+const MAX_ACTIVITY_BOOST_PERCENT = 100;
+
+export interface Mover {
+  token: Token;
+  price_change: number; // Percent over the window
+  price_change_source: 'upstream' | 'history';
+  volume_acceleration: number | null; // Percent change of rolling 24h volume over the window
+  transaction_growth: number | null; // Percent change of rolling 24h transactions over the window
+  score: number;
+}
+
+export function isMoverWindow(value: string): value is MoverWindow {
+  return Object.prototype.hasOwnProperty.call(MOVER_WINDOWS, value);
+}
+
+/**
+ * Ranks tokens by how strongly they moved over a window. The price change
+ * for the window is taken from the matching upstream field when one exists,
+ * otherwise from our own snapshot history. Rising volume and transaction
+ * counts amplify the score, so moves backed by activity rank first.
+ */
+export class MoversService {
+  private snapshots: SnapshotStore;
+
+  constructor(snapshots: SnapshotStore = snapshotStore) {
+    this.snapshots = snapshots;
+  }
+
+  async rank(
+    tokens: Token[],
+    window: MoverWindow,
+    direction: MoverDirection,
+    now: number = Date.now()
+  ): Promise<Mover[]> {
+    const movers: Mover[] = [];
+
+    for (const token of tokens) {
+      const samples = await this.snapshots.getSamples(
+        token.token_address,
+        now - MOVER_WINDOWS[window],
+        now
+      );
+      const history = this.hasCoverage(samples, window) ? samples : [];
+
+      const upstream = this.upstreamChange(token, window);
+      const historical = this.percentChange(history, (sample) => sample.price_sol);
+      const priceChange = upstream ?? historical;
+      if (priceChange === null || !isFinite(priceChange)) {
+        continue;
+      }
+
+      const signedChange = direction === 'up' ? priceChange : -priceChange;
+      if (signedChange <= 0) {
+        continue;
+      }
+
+      const volumeAcceleration = this.percentChange(history, (sample) => sample.volume_sol);
+      const transactionGrowth = this.percentChange(history, (sample) => sample.transaction_count);
+      const boost =
+        1 + 0.5 * this.activity(volumeAcceleration) + 0.5 * this.activity(transactionGrowth);
+
+      movers.push({
+        token,
+        price_change: priceChange,
+        price_change_source: upstream !== null ? 'upstream' : 'history',
+        volume_acceleration: volumeAcceleration,
+        transaction_growth: transactionGrowth,
+        score: Math.round(signedChange * boost * 100) / 100,
+      });
+    }
+
+    return movers.sort((a, b) => b.score - a.score);
+  }
+
+  private upstreamChange(token: Token, window: MoverWindow): number | null {
+    switch (window) {
+      case '5m':
+        return token.price_5m_change ?? null;
+      case '1h':
+        return token.price_1hr_change ?? null;
+      case '24h':
+        return token.price_24hr_change ?? null;
+    }
+  }
+
+  private hasCoverage(samples: TokenSample[], window: MoverWindow): boolean {
+    if (samples.length < 2) {
+      return false;
+    }
+    const span = samples[samples.length - 1].timestamp - samples[0].timestamp;
+    return span >= MOVER_WINDOWS[window] * MIN_HISTORY_COVERAGE;
+  }
+
+  private percentChange(
+    samples: TokenSample[],
+    getValue: (sample: TokenSample) => number
+  ): number | null {
+    if (samples.length < 2) {
+      return null;
+    }
+    const first = getValue(samples[0]);
+    const last = getValue(samples[samples.length - 1]);
+    return first > 0 ? ((last - first) / first) * 100 : null;
+  }
+
+  // 0-1 contribution of a growth percentage; shrinking activity adds nothing
+  private activity(growth: number | null): number {
+    if (growth === null || growth <= 0) {
+      return 0;
+    }
+    return Math.min(growth, MAX_ACTIVITY_BOOST_PERCENT) / MAX_ACTIVITY_BOOST_PERCENT;
+  }
+}
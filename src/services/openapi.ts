@@ -0,0 +1,642 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import {
+  OpenAPIRegistry,
+  OpenApiGeneratorV3,
+  RouteConfig,
+  extendZodWithOpenApi,
+} from '@asteasolutions/zod-to-openapi';
+import { ALERT_METRICS, ALERT_OPERATORS, AlertMetric, AlertOperator } from './alerts';
+import { CANDLE_INTERVALS, CandleInterval } from './candles';
+import { MOVER_WINDOWS, MoverWindow } from './movers';
+import {
+  anomalyFlagSchema,
+  paginationOptionsSchema,
+  timePeriodSchema,
+  tokenListQuerySchema,
+} from '../types/options';
+import { FieldProvenance, Pool, RiskReason, Token } from '../types/token';
+
+extendZodWithOpenApi(z);
+
+/*
+ * The OpenAPI document served at /api/openapi.json. Query parameters come
+ * from the same zod schemas the routes validate with; the route list is
+ * checked against the mounted routers in the tests, so an undocumented
+ * route fails the build instead of drifting out of the docs.
+ */
+
+export interface RouteMount {
+  path: string; // Where the router is mounted, e.g. '/api/tokens'
+  router: Router;
+}
+
+export interface ApiRoute {
+  method: string;
+  path: string; // OpenAPI form, e.g. '/api/tokens/{address}'
+}
+
+// Express ':param' segments become OpenAPI '{param}'
+export function toOpenApiPath(path: string): string {
+  return path.replace(/:(\w+)/g, '{$1}');
+}
+
+/**
+ * Every method and path the mounted routers handle. Middleware layers
+ * (router.use) are skipped since they don't add routes of their own.
+ */
+export function listRoutes(mounts: RouteMount[]): ApiRoute[] {
+  return mounts.flatMap(({ path, router }) =>
+    router.stack.flatMap((layer) => {
+      if (!layer.route) {
+        return [];
+      }
+      const routePath = toOpenApiPath(path + (layer.route.path === '/' ? '' : layer.route.path));
+      const methods = new Set(layer.route.stack.map((handler) => handler.method));
+      return Array.from(methods, (method) => ({ method, path: routePath }));
+    })
+  );
+}
+
+function keysOf<K extends string>(record: Record<K, unknown>): [K, ...K[]] {
+  return Object.keys(record) as [K, ...K[]];
+}
+
+const errorSchema = z
+  .object({
+    error: z.string(),
+    message: z.string().optional(), // Set on 500s
+  })
+  .openapi('Error');
+
+const validationErrorSchema = z
+  .object({
+    error: z.literal('Invalid query parameters'),
+    details: z.array(z.object({ field: z.string(), message: z.string() })),
+  })
+  .openapi('ValidationError');
+
+// Names the fields a schema and the type it documents don't share
+type FieldMismatch<T, Schema> = [
+  Exclude<keyof T, keyof Schema> | Exclude<keyof Schema, keyof T>,
+] extends [never]
+  ? [T] extends [Schema]
+    ? unknown
+    : { mismatched: 'a field type differs from the schema' }
+  : { undocumented: Exclude<keyof T, keyof Schema>; unknown: Exclude<keyof Schema, keyof T> };
+
+// Response schemas are written by hand from the interfaces in types/token;
+// wrapping them here fails the type-check until a field added to or changed
+// on the interface is documented too
+function documents<T>() {
+  return <Schema extends z.ZodType<T>>(schema: Schema & FieldMismatch<T, z.infer<Schema>>) =>
+    schema as Schema;
+}
+
+const fieldProvenanceSchema = documents<FieldProvenance>()(
+  z.object({
+    source: z.string(),
+    fetched_at: z.number().optional(),
+  })
+);
+
+const riskReasonSchema = documents<RiskReason>()(
+  z.object({ factor: z.string(), points: z.number(), detail: z.string() })
+);
+
+const poolSchema = documents<Pool>()(
+  z
+    .object({
+      pair_address: z.string(),
+      dex: z.string(),
+      quote_token: z.object({ address: z.string(), symbol: z.string() }),
+      price_sol: z.number(),
+      price_usd: z.number().optional(),
+      liquidity_sol: z.number(),
+      volume_sol: z.number(),
+      transaction_count: z.number(),
+      price_5m_change: z.number().optional(),
+      price_1hr_change: z.number().optional(),
+      price_6hr_change: z.number().optional(),
+      price_24hr_change: z.number().optional(),
+      volume_5m_sol: z.number().optional(),
+      volume_1hr_sol: z.number().optional(),
+      volume_6hr_sol: z.number().optional(),
+      buy_count: z.number().optional(),
+      sell_count: z.number().optional(),
+      created_at: z.number().optional(),
+      source: z.string(),
+      last_updated: z.number().optional(),
+    })
+    .openapi('Pool')
+);
+
+const tokenSchema = documents<Token>()(
+  z
+    .object({
+      token_address: z.string(),
+      token_name: z.string(),
+      token_ticker: z.string(),
+      price_sol: z.number(),
+      market_cap_sol: z.number(),
+      market_cap_estimated: z.boolean().optional(),
+      volume_sol: z.number(),
+      liquidity_sol: z.number(),
+      transaction_count: z.number(),
+      price_5m_change: z.number().optional(),
+      price_1hr_change: z.number().optional(),
+      price_6hr_change: z.number().optional(),
+      price_24hr_change: z.number().optional(),
+      price_7d_change: z.number().optional(),
+      volume_5m_sol: z.number().optional(),
+      volume_1hr_sol: z.number().optional(),
+      volume_6hr_sol: z.number().optional(),
+      buy_count: z.number().optional(),
+      sell_count: z.number().optional(),
+      buy_sell_ratio: z.number().optional(),
+      protocol: z.string(),
+      created_at: z.number().optional(),
+      age_seconds: z.number().optional(),
+      source: z.string().optional(),
+      last_updated: z.number().optional(),
+      pools: z.array(poolSchema).optional(),
+      confidence: z.number().min(0).max(1).optional(),
+      rejected_sources: z.array(z.string()).optional(),
+      provenance: z
+        .record(fieldProvenanceSchema)
+        .optional()
+        .openapi({ description: 'Only returned with ?include=provenance' }),
+      risk_score: z.number().min(0).max(100).optional(),
+      risk_reasons: z.array(riskReasonSchema).optional(),
+      anomaly_flags: z.array(anomalyFlagSchema).optional(),
+    })
+    .openapi('Token')
+);
+
+const alertRuleInputSchema = z
+  .object({
+    token_address: z.string(),
+    metric: z.enum(ALERT_METRICS as [AlertMetric, ...AlertMetric[]]),
+    operator: z.enum(ALERT_OPERATORS as [AlertOperator, ...AlertOperator[]]),
+    threshold: z
+      .number()
+      .openapi({ description: 'Metric value, or a percentage for drops_by/rises_by' }),
+    window: timePeriodSchema
+      .optional()
+      .openapi({ description: 'Only for the price_change metric' }),
+    webhook_url: z.string().url().optional(),
+  })
+  .openapi('AlertRuleInput');
+
+const alertRuleSchema = alertRuleInputSchema
+  .extend({
+    id: z.string(),
+    baseline: z.number().optional(),
+    created_at: z.number(),
+  })
+  .openapi('AlertRule');
+
+const watchlistSchema = z
+  .object({
+    queries: z.array(z.string()),
+    mints: z.array(z.string()),
+  })
+  .openapi('Watchlist');
+
+const candleSchema = z
+  .object({
+    timestamp: z.number(),
+    open: z.number(),
+    high: z.number(),
+    low: z.number(),
+    close: z.number(),
+    volume_sol: z.number(),
+    samples: z.number(),
+  })
+  .openapi('Candle');
+
+const moverSchema = z
+  .object({
+    token: tokenSchema,
+    price_change: z.number(),
+    price_change_source: z.enum(['upstream', 'history']),
+    volume_acceleration: z.number().nullable(),
+    transaction_growth: z.number().nullable(),
+    score: z.number(),
+  })
+  .openapi('Mover');
+
+const includeQuery = z
+  .string()
+  .optional()
+  .openapi({ description: 'Comma-separated optional token fields, e.g. provenance' });
+
+const tokenListQuery = tokenListQuerySchema.extend({ include: includeQuery });
+const addressParams = z.object({ address: z.string() });
+const idParams = z.object({ id: z.string() });
+
+function json(description: string, schema: z.ZodTypeAny) {
+  return { description, content: { 'application/json': { schema } } };
+}
+
+const errorResponse = (description: string) => json(description, errorSchema);
+const watchlistResponse = json('Current watchlist', z.object({ watchlist: watchlistSchema }));
+const internalError = errorResponse('Internal server error');
+
+// Routers behind requireApiKey; their operations get the security scheme and its errors
+const API_KEY_PATHS = ['/api/admin/', '/api/alerts'];
+
+const apiKeyErrors = {
+  401: errorResponse('Invalid or missing API key'),
+  503: errorResponse('ADMIN_API_KEY is not set in production'),
+};
+
+const routes: RouteConfig[] = [
+  {
+    method: 'get',
+    path: '/api/tokens',
+    tags: ['Tokens'],
+    summary: 'List tokens with filters, sorting and cursor pagination',
+    request: { query: tokenListQuery },
+    responses: {
+      200: json(
+        'A page of tokens',
+        z.object({
+          tokens: z.array(tokenSchema),
+          metadata: z.object({
+            total: z.number(),
+            returned: z.number(),
+            next_cursor: z.string().optional(),
+            response_time_ms: z.number(),
+          }),
+        })
+      ),
+      400: json('Invalid query parameters', validationErrorSchema),
+      500: internalError,
+    },
+  },
+  {
+    method: 'get',
+    path: '/api/tokens/search',
+    tags: ['Tokens'],
+    summary: 'Search tokens by name, ticker or address',
+    request: { query: z.object({ q: z.string(), include: includeQuery }) },
+    responses: {
+      200: json(
+        'Up to 20 matching tokens',
+        z.object({
+          tokens: z.array(tokenSchema),
+          metadata: z.object({ total: z.number(), query: z.string() }),
+        })
+      ),
+      400: errorResponse('Missing "q"'),
+      500: internalError,
+    },
+  },
+  {
+    method: 'get',
+    path: '/api/tokens/movers',
+    tags: ['Tokens'],
+    summary: 'Rank the biggest gainers or losers over a window',
+    request: {
+      query: z.object({
+        window: z.enum(keysOf<MoverWindow>(MOVER_WINDOWS)).default('1h'),
+        direction: z.enum(['up', 'down']).default('up'),
+        limit: paginationOptionsSchema.shape.limit.default(20),
+        include: includeQuery,
+      }),
+    },
+    responses: {
+      200: json(
+        'Ranked movers',
+        z.object({
+          movers: z.array(moverSchema),
+          metadata: z.object({
+            window: z.string(),
+            direction: z.string(),
+            total: z.number(),
+            returned: z.number(),
+          }),
+        })
+      ),
+      400: json('Invalid query parameters', validationErrorSchema),
+      500: internalError,
+    },
+  },
+  {
+    method: 'get',
+    path: '/api/tokens/stream',
+    tags: ['Tokens'],
+    summary: 'Server-Sent Events feed of a token list view',
+    description:
+      'Emits the same events as the Socket.IO feed. tokens:update events carry ids, so a ' +
+      'reconnecting client can resume with the Last-Event-ID header or ?lastEventId.',
+    request: {
+      query: tokenListQuery.extend({ lastEventId: z.string().optional() }),
+      headers: z.object({ 'last-event-id': z.string().optional() }),
+    },
+    responses: {
+      200: {
+        description: 'Event stream',
+        content: { 'text/event-stream': { schema: z.string() } },
+      },
+      400: json('Invalid query parameters', validationErrorSchema),
+      503: errorResponse('Streaming is not available'),
+    },
+  },
+  {
+    method: 'get',
+    path: '/api/tokens/{address}/candles',
+    tags: ['Tokens'],
+    summary: 'OHLCV candles built from recorded snapshots',
+    request: {
+      params: addressParams,
+      query: z.object({
+        interval: z.enum(keysOf<CandleInterval>(CANDLE_INTERVALS)).default('5m'),
+        from: z
+          .string()
+          .optional()
+          .openapi({ description: 'Unix ms or ISO date; 24h before "to" by default' }),
+        to: z.string().optional().openapi({ description: 'Unix ms or ISO date; now by default' }),
+      }),
+    },
+    responses: {
+      200: json(
+        'Candles for the range',
+        z.object({
+          token_address: z.string(),
+          interval: z.string(),
+          candles: z.array(candleSchema),
+          metadata: z.object({
+            from: z.number(),
+            to: z.number(),
+            total: z.number(),
+            samples: z.number(),
+          }),
+        })
+      ),
+      400: json('Invalid query parameters', validationErrorSchema),
+      404: errorResponse('Token not found'),
+      500: internalError,
+    },
+  },
+  {
+    method: 'get',
+    path: '/api/tokens/{address}/pairs',
+    tags: ['Tokens'],
+    summary: 'Every pool of a token, deepest liquidity first',
+    request: { params: addressParams },
+    responses: {
+      200: json(
+        'Pools of the token',
+        z.object({
+          token_address: z.string(),
+          token_ticker: z.string(),
+          pools: z.array(poolSchema),
+          metadata: z.object({
+            total: z.number(),
+            liquidity_sol: z.number(),
+            volume_sol: z.number(),
+          }),
+        })
+      ),
+      404: errorResponse('Token not found'),
+      500: internalError,
+    },
+  },
+  {
+    method: 'get',
+    path: '/api/tokens/{address}',
+    tags: ['Tokens'],
+    summary: 'Get a token by address',
+    request: { params: addressParams, query: z.object({ include: includeQuery }) },
+    responses: {
+      200: json('The token', z.object({ token: tokenSchema })),
+      404: errorResponse('Token not found'),
+      500: internalError,
+    },
+  },
+  {
+    method: 'get',
+    path: '/api/health',
+    tags: ['Health'],
+    summary: 'Service health, cache and feed status',
+    responses: {
+      200: json(
+        'Healthy',
+        z.object({
+          status: z.literal('healthy'),
+          timestamp: z.string(),
+          services: z.record(z.string()),
+          sol_price: z.object({
+            price_usd: z.number().nullable(),
+            source: z.string().nullable(),
+            age_seconds: z.number().nullable(),
+            stale: z.boolean(),
+          }),
+          history: z.object({ backend: z.enum(['redis', 'memory']), tracked_tokens: z.number() }),
+          websocket: z
+            .object({
+              clients: z.number(),
+              rooms: z.number(),
+              largest_room: z.number(),
+              followed_tokens: z.number(),
+              sessions: z.number(),
+              streams: z.number(),
+            })
+            .optional(),
+        })
+      ),
+      503: json(
+        'Unhealthy',
+        z.object({ status: z.literal('unhealthy'), timestamp: z.string(), error: z.string() })
+      ),
+    },
+  },
+  {
+    method: 'get',
+    path: '/api/alerts',
+    tags: ['Alerts'],
+    summary: 'List alert rules',
+    responses: {
+      200: json('Alert rules', z.object({ rules: z.array(alertRuleSchema), total: z.number() })),
+      500: internalError,
+    },
+  },
+  {
+    method: 'post',
+    path: '/api/alerts',
+    tags: ['Alerts'],
+    summary: 'Create an alert rule',
+    request: { body: { content: { 'application/json': { schema: alertRuleInputSchema } } } },
+    responses: {
+      201: json('Created rule', z.object({ rule: alertRuleSchema })),
+      400: errorResponse('Invalid rule, or a webhook_url that is private or cannot be signed'),
+      500: internalError,
+    },
+  },
+  {
+    method: 'get',
+    path: '/api/alerts/{id}',
+    tags: ['Alerts'],
+    summary: 'Get an alert rule',
+    request: { params: idParams },
+    responses: {
+      200: json('The rule', z.object({ rule: alertRuleSchema })),
+      404: errorResponse('Alert rule not found'),
+      500: internalError,
+    },
+  },
+  {
+    method: 'delete',
+    path: '/api/alerts/{id}',
+    tags: ['Alerts'],
+    summary: 'Delete an alert rule',
+    request: { params: idParams },
+    responses: {
+      204: { description: 'Deleted' },
+      404: errorResponse('Alert rule not found'),
+      500: internalError,
+    },
+  },
+  {
+    method: 'get',
+    path: '/api/admin/watchlist',
+    tags: ['Admin'],
+    summary: 'Get the discovery watchlist',
+    responses: { 200: watchlistResponse },
+  },
+  {
+    method: 'put',
+    path: '/api/admin/watchlist',
+    tags: ['Admin'],
+    summary: 'Replace the watchlist',
+    request: { body: { content: { 'application/json': { schema: watchlistSchema } } } },
+    responses: {
+      200: watchlistResponse,
+      400: errorResponse('Invalid watchlist'),
+      500: internalError,
+    },
+  },
+  {
+    method: 'post',
+    path: '/api/admin/watchlist/reload',
+    tags: ['Admin'],
+    summary: 'Reload the watchlist from its file',
+    responses: {
+      200: watchlistResponse,
+      400: errorResponse('Invalid watchlist file'),
+      500: internalError,
+    },
+  },
+  {
+    method: 'post',
+    path: '/api/admin/watchlist/queries',
+    tags: ['Admin'],
+    summary: 'Add discovery queries',
+    request: {
+      body: {
+        content: {
+          'application/json': {
+            schema: z.object({ queries: z.union([z.string(), z.array(z.string())]) }),
+          },
+        },
+      },
+    },
+    responses: {
+      201: watchlistResponse,
+      400: errorResponse('Invalid queries'),
+      500: internalError,
+    },
+  },
+  {
+    method: 'delete',
+    path: '/api/admin/watchlist/queries/{query}',
+    tags: ['Admin'],
+    summary: 'Remove a discovery query',
+    request: { params: z.object({ query: z.string() }) },
+    responses: {
+      200: watchlistResponse,
+      404: errorResponse('Query not found in watchlist'),
+      500: internalError,
+    },
+  },
+  {
+    method: 'post',
+    path: '/api/admin/watchlist/mints',
+    tags: ['Admin'],
+    summary: 'Add always-tracked token mints',
+    request: {
+      body: {
+        content: {
+          'application/json': {
+            schema: z.object({ mints: z.union([z.string(), z.array(z.string())]) }),
+          },
+        },
+      },
+    },
+    responses: {
+      201: watchlistResponse,
+      400: errorResponse('Invalid mints'),
+      500: internalError,
+    },
+  },
+  {
+    method: 'delete',
+    path: '/api/admin/watchlist/mints/{mint}',
+    tags: ['Admin'],
+    summary: 'Remove a tracked mint',
+    request: { params: z.object({ mint: z.string() }) },
+    responses: {
+      200: watchlistResponse,
+      404: errorResponse('Mint not found in watchlist'),
+      500: internalError,
+    },
+  },
+  {
+    method: 'get',
+    path: '/api/openapi.json',
+    tags: ['Docs'],
+    summary: 'This OpenAPI document',
+    responses: { 200: json('OpenAPI 3 document', z.object({}).passthrough()) },
+  },
+  {
+    method: 'get',
+    path: '/api/docs',
+    tags: ['Docs'],
+    summary: 'Interactive API docs',
+    responses: {
+      200: { description: 'HTML page', content: { 'text/html': { schema: z.string() } } },
+    },
+  },
+];
+
+export function buildOpenApiDocument() {
+  const registry = new OpenAPIRegistry();
+  const apiKey = registry.registerComponent('securitySchemes', 'ApiKey', {
+    type: 'apiKey',
+    in: 'header',
+    name: 'x-api-key',
+  });
+
+  routes.forEach((route) =>
+    registry.registerPath(
+      API_KEY_PATHS.some((path) => route.path.startsWith(path))
+        ? {
+            ...route,
+            security: [{ [apiKey.name]: [] }],
+            responses: { ...route.responses, ...apiKeyErrors },
+          }
+        : route
+    )
+  );
+
+  return new OpenApiGeneratorV3(registry.definitions).generateDocument({
+    openapi: '3.0.3',
+    info: {
+      title: 'Meme Coin Aggregator API',
+      version: '1.0.0',
+      description: 'Real-time meme coin data aggregated from multiple DEX sources',
+    },
+  });
+}
@@ -0,0 +1,197 @@
+import axios, { AxiosInstance } from 'axios';
+import { cacheService } from './cache';
+import { retryWithBackoff } from '../utils/retry';
+import logger from '../utils/logger';
+
+export const SOL_MINT = 'So11111111111111111111111111111111111111112';
+const USD_QUOTE_SYMBOLS = ['USDC', 'USDT'];
+
+// Re-fetch once the cached quote is older than this
+const REFRESH_INTERVAL = parseInt(process.env.SOL_PRICE_REFRESH_INTERVAL || '30', 10);
+// Quotes older than this are not used for conversions
+const MAX_AGE = parseInt(process.env.SOL_PRICE_MAX_AGE || '300', 10);
+
+export interface SolPriceQuote {
+  price_usd: number;
+  source: 'jupiter' | 'dexscreener';
+  fetched_at: number; // Timestamp
+}
+
+export interface SolPriceStatus {
+  price_usd: number | null;
+  source: string | null;
+  age_seconds: number | null;
+  stale: boolean;
+}
+
+interface JupiterPriceResponse {
+  data: Record<string, { id: string; price: string | number } | null>;
+}
+
+interface DexScreenerTokenResponse {
+  pairs:
+    | {
+        chainId: string;
+        quoteToken: { symbol: string };
+        priceUsd?: string;
+        liquidity?: { usd?: number };
+      }[]
+    | null;
+}
+
+export class SolPriceOracle {
+  private jupiter: AxiosInstance;
+  private dexscreener: AxiosInstance;
+  private latest: SolPriceQuote | null = null;
+  private pendingRefresh: Promise<SolPriceQuote | null> | null = null;
+  private refreshIntervalMs: number;
+  private maxAgeMs: number;
+
+  constructor(refreshIntervalSeconds: number = REFRESH_INTERVAL, maxAgeSeconds: number = MAX_AGE) {
+    this.refreshIntervalMs = refreshIntervalSeconds * 1000;
+    this.maxAgeMs = maxAgeSeconds * 1000;
+    this.jupiter = axios.create({
+      baseURL: 'https://lite-api.jup.ag',
+      timeout: 5000,
+      headers: { Accept: 'application/json' },
+    });
+    this.dexscreener = axios.create({
+      baseURL: 'https://api.dexscreener.com/latest/dex',
+      timeout: 5000,
+      headers: { Accept: 'application/json' },
+    });
+  }
+
+  /**
+   * Returns the latest known quote, refreshing it first if it is due.
+   * The result may be stale; use getFreshPrice() for conversions.
+   */
+  async getQuote(): Promise<SolPriceQuote | null> {
+    if (!this.latest) {
+      this.latest = await cacheService.get<SolPriceQuote>(this.cacheKey());
+    }
+
+    const staleness = this.getStalenessMs();
+    if (staleness === null || staleness > this.refreshIntervalMs) {
+      await this.refresh();
+    }
+
+    return this.latest;
+  }
+
+  /**
+   * SOL/USD price suitable for converting between USD and SOL, or null when
+   * the oracle has no quote younger than the configured maximum age.
+   */
+  async getFreshPrice(): Promise<number | null> {
+    const quote = await this.getQuote();
+    if (!quote || this.isStale()) {
+      logger.warn(
+        `SOL/USD quote unavailable or older than ${this.maxAgeMs / 1000}s, refusing to convert prices`
+      );
+      return null;
+    }
+    return quote.price_usd;
+  }
+
+  async refresh(): Promise<SolPriceQuote | null> {
+    // Concurrent callers share a single in-flight refresh
+    if (!this.pendingRefresh) {
+      this.pendingRefresh = this.fetchQuote().finally(() => {
+        this.pendingRefresh = null;
+      });
+    }
+    return this.pendingRefresh;
+  }
+
+  getStalenessMs(now: number = Date.now()): number | null {
+    return this.latest ? now - this.latest.fetched_at : null;
+  }
+
+  isStale(now: number = Date.now()): boolean {
+    const staleness = this.getStalenessMs(now);
+    return staleness === null || staleness > this.maxAgeMs;
+  }
+
+  getStatus(): SolPriceStatus {
+    const staleness = this.getStalenessMs();
+    return {
+      price_usd: this.latest?.price_usd ?? null,
+      source: this.latest?.source ?? null,
+      age_seconds: staleness === null ? null : Math.round(staleness / 1000),
+      stale: this.isStale(),
+    };
+  }
+
+  private async fetchQuote(): Promise<SolPriceQuote | null> {
+    const fetchers: { source: SolPriceQuote['source']; fetch: () => Promise<number | null> }[] = [
+      { source: 'jupiter', fetch: () => this.fetchFromJupiter() },
+      { source: 'dexscreener', fetch: () => this.fetchFromDexScreener() },
+    ];
+
+    for (const { source, fetch } of fetchers) {
+      try {
+        const price = await fetch();
+        if (price && price > 0) {
+          const quote: SolPriceQuote = { price_usd: price, source, fetched_at: Date.now() };
+          this.latest = quote;
+          await cacheService.set(this.cacheKey(), quote, Math.ceil(this.maxAgeMs / 1000));
+          logger.debug(`SOL/USD price updated from ${source}: ${price}`);
+          return quote;
+        }
+      } catch (error) {
+        logger.warn(`Failed to fetch SOL/USD price from ${source}:`, error);
+      }
+    }
+
+    logger.error('Failed to refresh SOL/USD price from any source');
+    return this.latest;
+  }
+
+  private async fetchFromJupiter(): Promise<number | null> {
+    const response = await retryWithBackoff<JupiterPriceResponse>(
+      async () => {
+        const res = await this.jupiter.get(`/price/v2?ids=${SOL_MINT}`);
+        return res.data;
+      },
+      {
+        maxRetries: 2,
+        baseDelay: 500,
+      }
+    );
+
+    const price = Number(response?.data?.[SOL_MINT]?.price);
+    return isNaN(price) ? null : price;
+  }
+
+  private async fetchFromDexScreener(): Promise<number | null> {
+    const response = await retryWithBackoff<DexScreenerTokenResponse>(
+      async () => {
+        const res = await this.dexscreener.get(`/tokens/${SOL_MINT}`);
+        return res.data;
+      },
+      {
+        maxRetries: 2,
+        baseDelay: 500,
+      }
+    );
+
+    // Use the deepest SOL/stablecoin pool on Solana
+    const pair = (response?.pairs || [])
+      .filter(
+        (p) =>
+          p.chainId === 'solana' &&
+          USD_QUOTE_SYMBOLS.includes(p.quoteToken?.symbol?.toUpperCase()) &&
+          p.priceUsd
+      )
+      .sort((a, b) => (b.liquidity?.usd || 0) - (a.liquidity?.usd || 0))[0];
+
+    return pair ? parseFloat(pair.priceUsd!) : null;
+  }
+
+  private cacheKey(): string {
+    return cacheService.generateKey('oracle', 'sol_usd');
+  }
+}
+
+export const solPriceOracle = new SolPriceOracle();
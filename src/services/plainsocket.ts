@@ -0,0 +1,229 @@
+import crypto from 'crypto';
+import { IncomingMessage, Server as HTTPServer } from 'http';
+import { Duplex } from 'stream';
+import { WebSocketServer, WebSocket, RawData } from 'ws';
+import { WebSocketService, UpdateStream } from './websocket';
+import {
+  ClientPreferences,
+  ValidationIssue,
+  clientPreferencesSchema,
+  validationIssues,
+} from '../types/options';
+import logger from '../utils/logger';
+
+// Bumped whenever a message changes shape; every message carries it as `v`
+export const PROTOCOL_VERSION = 1;
+
+// Seconds between pings; a client that hasn't answered the previous one is dropped
+const HEARTBEAT_INTERVAL = parseInt(process.env.PLAIN_WEBSOCKET_HEARTBEAT_INTERVAL || '30', 10);
+// Largest client frame in bytes; bigger ones close the connection with 1009
+const MAX_PAYLOAD = parseInt(process.env.PLAIN_WEBSOCKET_MAX_PAYLOAD || '65536', 10);
+
+export type ClientMessage =
+  | { v: number; type: 'subscribe'; preferences?: ClientPreferences; last_event_id?: string }
+  | { v: number; type: 'unsubscribe' }
+  | { v: number; type: 'ping'; id?: string };
+
+export type ProtocolErrorCode =
+  | 'invalid_message'
+  | 'unsupported_version'
+  | 'unknown_type'
+  | 'internal_error';
+
+export type ServerMessage =
+  | { v: number; type: 'subscribed'; preferences: ClientPreferences }
+  | { v: number; type: 'unsubscribed' }
+  | { v: number; type: 'pong'; id?: string; timestamp: number }
+  | { v: number; type: 'update'; event: string; event_id?: string; data: unknown }
+  | {
+      v: number;
+      type: 'error';
+      code: ProtocolErrorCode;
+      message: string;
+      details?: ValidationIssue[];
+    };
+
+export class ProtocolError extends Error {
+  constructor(
+    public code: ProtocolErrorCode,
+    message: string,
+    public details?: ValidationIssue[]
+  ) {
+    super(message);
+    this.name = 'ProtocolError';
+  }
+}
+
+const MESSAGE_TYPES = ['subscribe', 'unsubscribe', 'ping'];
+
+/**
+ * Parses a client frame: valid JSON, a supported version, a known type and,
+ * for subscribe, preferences that pass the same schema as Socket.IO's.
+ */
+export function parseMessage(raw: string): ClientMessage {
+  let message: unknown;
+  try {
+    message = JSON.parse(raw);
+  } catch {
+    throw new ProtocolError('invalid_message', 'Messages must be JSON objects');
+  }
+  if (typeof message !== 'object' || message === null || Array.isArray(message)) {
+    throw new ProtocolError('invalid_message', 'Messages must be JSON objects');
+  }
+
+  const { v, type, preferences } = message as Record<string, unknown>;
+  if (v !== PROTOCOL_VERSION) {
+    throw new ProtocolError(
+      'unsupported_version',
+      `Unsupported protocol version ${JSON.stringify(v)}; this server speaks v${PROTOCOL_VERSION}`
+    );
+  }
+  if (typeof type !== 'string' || !MESSAGE_TYPES.includes(type)) {
+    throw new ProtocolError('unknown_type', `"type" must be one of: ${MESSAGE_TYPES.join(', ')}`);
+  }
+  if (type === 'subscribe') {
+    const result = clientPreferencesSchema.safeParse(preferences ?? {});
+    if (!result.success) {
+      throw new ProtocolError(
+        'invalid_message',
+        'Invalid preferences',
+        validationIssues(result.error).map((issue) => ({
+          ...issue,
+          field: issue.field ? `preferences.${issue.field}` : 'preferences',
+        }))
+      );
+    }
+    return { ...(message as ClientMessage), preferences: result.data } as ClientMessage;
+  }
+
+  return message as ClientMessage;
+}
+
+/**
+ * Plain RFC 6455 WebSocket endpoint with a versioned JSON protocol, for
+ * clients without a Socket.IO library. Connections are fed as streams from
+ * the WebSocketService's view rooms, so they get the same updates as
+ * Socket.IO clients on the same view.
+ */
+export class PlainSocketServer {
+  private wss = new WebSocketServer({ noServer: true, maxPayload: MAX_PAYLOAD });
+  private heartbeat: NodeJS.Timeout;
+  private alive = new WeakSet<WebSocket>();
+
+  constructor(
+    httpServer: HTTPServer,
+    private websocket: WebSocketService,
+    private path: string = '/ws'
+  ) {
+    // Socket.IO answers upgrades on its own path, so only claim ours
+    httpServer.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+      if (new URL(req.url || '/', 'http://localhost').pathname !== this.path) {
+        return;
+      }
+      this.wss.handleUpgrade(req, socket, head, (ws) => this.handleConnection(ws));
+    });
+
+    this.heartbeat = setInterval(() => {
+      this.wss.clients.forEach((ws) => {
+        if (!this.alive.has(ws)) {
+          ws.terminate();
+          return;
+        }
+        this.alive.delete(ws);
+        ws.ping();
+      });
+    }, HEARTBEAT_INTERVAL * 1000);
+  }
+
+  private handleConnection(ws: WebSocket): void {
+    const stream: UpdateStream = {
+      id: `ws:${crypto.randomUUID()}`,
+      send: (event, data, eventId) => {
+        if (event === 'error') {
+          const { message } = data as { message: string };
+          this.send(ws, { v: PROTOCOL_VERSION, type: 'error', code: 'internal_error', message });
+          return;
+        }
+        this.send(ws, { v: PROTOCOL_VERSION, type: 'update', event, event_id: eventId, data });
+      },
+    };
+
+    this.alive.add(ws);
+    ws.on('pong', () => this.alive.add(ws));
+    ws.on('message', (raw) => void this.handleMessage(ws, stream, raw));
+    // ws closes the connection itself (e.g. 1009 for oversized frames); without a
+    // listener the error would be thrown
+    ws.on('error', (error) =>
+      logger.warn(`Plain WebSocket error on ${stream.id}: ${error.message}`)
+    );
+    ws.on('close', () => {
+      this.websocket.removeStream(stream.id);
+      logger.info(`Plain WebSocket client disconnected: ${stream.id}`);
+    });
+    logger.info(`Plain WebSocket client connected: ${stream.id}`);
+  }
+
+  private async handleMessage(ws: WebSocket, stream: UpdateStream, raw: RawData): Promise<void> {
+    try {
+      await this.dispatch(ws, stream, parseMessage(raw.toString()));
+    } catch (error) {
+      if (error instanceof ProtocolError) {
+        this.send(ws, {
+          v: PROTOCOL_VERSION,
+          type: 'error',
+          code: error.code,
+          message: error.message,
+          details: error.details,
+        });
+        return;
+      }
+      logger.error(`Error handling plain WebSocket message from ${stream.id}:`, error);
+      this.send(ws, {
+        v: PROTOCOL_VERSION,
+        type: 'error',
+        code: 'internal_error',
+        message: 'Failed to handle message',
+      });
+    }
+  }
+
+  private async dispatch(
+    ws: WebSocket,
+    stream: UpdateStream,
+    message: ClientMessage
+  ): Promise<void> {
+    switch (message.type) {
+      case 'subscribe': {
+        // A new subscription replaces the previous one, like updatePreferences
+        this.websocket.removeStream(stream.id);
+        const preferences = message.preferences || {};
+        this.send(ws, { v: PROTOCOL_VERSION, type: 'subscribed', preferences });
+        await this.websocket.addStream(stream, preferences, message.last_event_id);
+        break;
+      }
+      case 'unsubscribe':
+        this.websocket.removeStream(stream.id);
+        this.send(ws, { v: PROTOCOL_VERSION, type: 'unsubscribed' });
+        break;
+      case 'ping':
+        this.send(ws, { v: PROTOCOL_VERSION, type: 'pong', id: message.id, timestamp: Date.now() });
+        break;
+    }
+  }
+
+  private send(ws: WebSocket, message: ServerMessage): void {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(message));
+    }
+  }
+
+  getConnectedClientsCount(): number {
+    return this.wss.clients.size;
+  }
+
+  stop(): void {
+    clearInterval(this.heartbeat);
+    this.wss.clients.forEach((ws) => ws.close(1001, 'Server shutting down'));
+    this.wss.close();
+  }
+}
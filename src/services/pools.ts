@@ -0,0 +1,97 @@
+import { Token, Pool } from '../types/token';
+
+/**
+ * Combines two pool lists, keeping one entry per pair address. When several
+ * sources report the same pool, the most recently updated entry wins.
+ */
+export function mergePools(pools1: Pool[] = [], pools2: Pool[] = []): Pool[] {
+  const poolMap = new Map<string, Pool>();
+
+  for (const pool of [...pools1, ...pools2]) {
+    const key = pool.pair_address.toLowerCase();
+    const existing = poolMap.get(key);
+    if (!existing || (pool.last_updated || 0) > (existing.last_updated || 0)) {
+      poolMap.set(key, pool);
+    }
+  }
+
+  return Array.from(poolMap.values());
+}
+
+function liquidityWeightedAverage(
+  pools: Pool[],
+  getValue: (pool: Pool) => number | undefined
+): number | undefined {
+  let weightedSum = 0;
+  let totalWeight = 0;
+
+  for (const pool of pools) {
+    const value = getValue(pool);
+    if (value === undefined || !isFinite(value) || pool.liquidity_sol <= 0) {
+      continue;
+    }
+    weightedSum += value * pool.liquidity_sol;
+    totalWeight += pool.liquidity_sol;
+  }
+
+  return totalWeight > 0 ? weightedSum / totalWeight : undefined;
+}
+
+// Sums a per-pool field over the pools that report it, or undefined if none do
+function sumDefined(
+  pools: Pool[],
+  getValue: (pool: Pool) => number | undefined
+): number | undefined {
+  const values = pools.map(getValue).filter((value): value is number => value !== undefined);
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) : undefined;
+}
+
+export function buySellRatio(buys?: number, sells?: number): number | undefined {
+  return buys !== undefined && sells ? buys / sells : undefined;
+}
+
+/**
+ * Recomputes token-level metrics from its pools: liquidity, volume and
+ * transactions are summed, price and price changes are liquidity-weighted.
+ * Tokens without pools are returned unchanged.
+ */
+export function applyPoolAggregates(token: Token): Token {
+  const pools = token.pools || [];
+  if (pools.length === 0) {
+    return token;
+  }
+
+  const createdAt = pools
+    .map((pool) => pool.created_at)
+    .filter((value): value is number => value !== undefined);
+  const buyCount = sumDefined(pools, (pool) => pool.buy_count) ?? token.buy_count;
+  const sellCount = sumDefined(pools, (pool) => pool.sell_count) ?? token.sell_count;
+
+  return {
+    ...token,
+    price_sol: liquidityWeightedAverage(pools, (pool) => pool.price_sol) ?? token.price_sol,
+    liquidity_sol: pools.reduce((sum, pool) => sum + pool.liquidity_sol, 0),
+    volume_sol: pools.reduce((sum, pool) => sum + pool.volume_sol, 0),
+    transaction_count: pools.reduce((sum, pool) => sum + pool.transaction_count, 0),
+    price_5m_change:
+      liquidityWeightedAverage(pools, (pool) => pool.price_5m_change) ?? token.price_5m_change,
+    price_1hr_change:
+      liquidityWeightedAverage(pools, (pool) => pool.price_1hr_change) ?? token.price_1hr_change,
+    price_6hr_change:
+      liquidityWeightedAverage(pools, (pool) => pool.price_6hr_change) ?? token.price_6hr_change,
+    price_24hr_change:
+      liquidityWeightedAverage(pools, (pool) => pool.price_24hr_change) ?? token.price_24hr_change,
+    volume_5m_sol: sumDefined(pools, (pool) => pool.volume_5m_sol) ?? token.volume_5m_sol,
+    volume_1hr_sol: sumDefined(pools, (pool) => pool.volume_1hr_sol) ?? token.volume_1hr_sol,
+    volume_6hr_sol: sumDefined(pools, (pool) => pool.volume_6hr_sol) ?? token.volume_6hr_sol,
+    buy_count: buyCount,
+    sell_count: sellCount,
+    buy_sell_ratio: buySellRatio(buyCount, sellCount),
+    // A token is as old as its oldest pool
+    created_at: createdAt.length > 0 ? Math.min(...createdAt) : token.created_at,
+  };
+}
+
+export function sortPoolsByLiquidity(pools: Pool[]): Pool[] {
+  return [...pools].sort((a, b) => b.liquidity_sol - a.liquidity_sol);
+}
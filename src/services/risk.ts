@@ -0,0 +1,143 @@
+import { Token, RiskReason } from '../types/token';
+
+// Liquidity as a share of market cap below which a token is easy to drain
+const THIN_LIQUIDITY_RATIO = 0.05;
+const VERY_THIN_LIQUIDITY_RATIO = 0.02;
+// Ages (seconds) under which a pair counts as brand new / recent
+const BRAND_NEW_AGE = 60 * 60;
+const RECENT_AGE = 24 * 60 * 60;
+// Buy/sell ratios beyond this (either way) count as one-sided trading
+const IMBALANCE_RATIO = 3;
+// Fewer 24h transactions than this are too few to judge the buy/sell mix
+const MIN_TRADES_FOR_IMBALANCE = 20;
+
+/**
+ * Scores how likely a token is to be a rug pull, 0 (no red flags) to 100,
+ * from data the sources already report. Each red flag adds points and a
+ * reason; the score is their sum, capped at 100.
+ */
+export class RiskScorer {
+  score(token: Token): Token {
+    const reasons = [
+      this.liquidityRatio(token),
+      this.pairAge(token),
+      this.tradeImbalance(token),
+      this.poolConcentration(token),
+      this.estimatedMarketCap(token),
+    ].filter((reason): reason is RiskReason => reason !== null);
+
+    return {
+      ...token,
+      risk_score: Math.min(
+        100,
+        reasons.reduce((sum, reason) => sum + reason.points, 0)
+      ),
+      risk_reasons: reasons,
+    };
+  }
+
+  private liquidityRatio(token: Token): RiskReason | null {
+    if (token.market_cap_sol <= 0) {
+      return null;
+    }
+
+    const ratio = token.liquidity_sol / token.market_cap_sol;
+    const percent = `${(ratio * 100).toFixed(1)}%`;
+    if (ratio < VERY_THIN_LIQUIDITY_RATIO) {
+      return {
+        factor: 'liquidity_ratio',
+        points: 30,
+        detail: `Liquidity is only ${percent} of market cap`,
+      };
+    }
+    if (ratio < THIN_LIQUIDITY_RATIO) {
+      return {
+        factor: 'liquidity_ratio',
+        points: 15,
+        detail: `Liquidity is ${percent} of market cap`,
+      };
+    }
+    return null;
+  }
+
+  private pairAge(token: Token): RiskReason | null {
+    if (token.age_seconds === undefined) {
+      return { factor: 'pair_age', points: 5, detail: 'Pair creation time is unknown' };
+    }
+    if (token.age_seconds < BRAND_NEW_AGE) {
+      return {
+        factor: 'pair_age',
+        points: 20,
+        // The bracket, not the exact age, so the reason only changes when the score does
+        detail: 'Oldest pair is less than an hour old',
+      };
+    }
+    if (token.age_seconds < RECENT_AGE) {
+      return {
+        factor: 'pair_age',
+        points: 10,
+        detail: 'Oldest pair is less than a day old',
+      };
+    }
+    return null;
+  }
+
+  private tradeImbalance(token: Token): RiskReason | null {
+    const buys = token.buy_count;
+    const sells = token.sell_count;
+    if (buys === undefined || sells === undefined || buys + sells < MIN_TRADES_FOR_IMBALANCE) {
+      return null;
+    }
+
+    // Plenty of buys and no sells at all is the classic honeypot pattern
+    if (sells === 0) {
+      return {
+        factor: 'buy_sell_imbalance',
+        points: 25,
+        detail: `${buys} buys and no sells in 24h`,
+      };
+    }
+
+    const ratio = buys / sells;
+    if (ratio >= IMBALANCE_RATIO || ratio <= 1 / IMBALANCE_RATIO) {
+      return {
+        factor: 'buy_sell_imbalance',
+        points: 15,
+        detail: `${buys} buys vs ${sells} sells in 24h`,
+      };
+    }
+    return null;
+  }
+
+  private poolConcentration(token: Token): RiskReason | null {
+    const pools = token.pools || [];
+    if (pools.length === 0 || token.liquidity_sol <= 0) {
+      return null;
+    }
+
+    const largest = Math.max(...pools.map((pool) => pool.liquidity_sol));
+    const share = largest / token.liquidity_sol;
+    if (pools.length === 1 || share >= 0.95) {
+      return {
+        factor: 'pool_concentration',
+        points: 10,
+        detail:
+          pools.length === 1
+            ? 'All liquidity sits in a single pool'
+            : `${(share * 100).toFixed(0)}% of liquidity sits in a single pool`,
+      };
+    }
+    return null;
+  }
+
+  private estimatedMarketCap(token: Token): RiskReason | null {
+    if (!token.market_cap_estimated) {
+      return null;
+    }
+    return {
+      factor: 'estimated_market_cap',
+      points: 10,
+      detail: 'No source reports a market cap; it is estimated from 24h volume',
+    };
+  }
+}
@@ -0,0 +1,63 @@
+import crypto from 'crypto';
+import { ClientPreferences } from '../types/options';
+
+// Page size when a client sends no pagination at all
+const DEFAULT_PAGE_SIZE = 25;
+// Page size when pagination is sent without a limit, matching paginateTokens
+const DEFAULT_LIMIT = 20;
+
+function withoutUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(
+    Object.entries(value)
+      .filter(([, entry]) => entry !== undefined && entry !== null && entry !== '')
+      .sort(([a], [b]) => a.localeCompare(b))
+  ) as T;
+}
+
+/**
+ * Rewrites preferences so that any two that produce the same view are
+ * identical: unset and empty fields are dropped, keys are sorted, protocol
+ * case is folded, and pagination defaults and cursors are made explicit.
+ */
+export function normalizePreferences(preferences: ClientPreferences = {}): ClientPreferences {
+  const normalized: ClientPreferences = {};
+
+  const filter = withoutUndefined({
+    ...preferences.filter,
+    protocol: preferences.filter?.protocol?.toLowerCase(),
+  });
+  if (Object.keys(filter).length > 0) {
+    normalized.filter = filter;
+  }
+
+  if (preferences.sort) {
+    normalized.sort = withoutUndefined(preferences.sort);
+  }
+
+  const cursor = parseInt(preferences.pagination?.cursor || '0', 10);
+  normalized.pagination = {
+    cursor: String(isNaN(cursor) || cursor < 0 ? 0 : cursor),
+    limit: preferences.pagination
+      ? preferences.pagination.limit || DEFAULT_LIMIT
+      : DEFAULT_PAGE_SIZE,
+  };
+
+  const include = Array.from(new Set(preferences.include || [])).sort();
+  if (include.length > 0) {
+    normalized.include = include;
+  }
+
+  return normalized;
+}
+
+/**
+ * Socket.IO room name for a view. Clients whose normalized preferences match
+ * share a room and receive the same updates.
+ */
+export function roomFor(preferences: ClientPreferences = {}): string {
+  const hash = crypto
+    .createHash('sha1')
+    .update(JSON.stringify(normalizePreferences(preferences)))
+    .digest('hex');
+  return `view:${hash.slice(0, 16)}`;
+}
@@ -1,13 +1,32 @@
+import { EventEmitter } from 'events';
 import * as cron from 'node-cron';
 import { TokenAggregator } from './aggregator';
+import { SnapshotStore, snapshotStore } from './history';
+import { NewListingDetector } from './listings';
+import { AnomalyTracker } from './anomalies';
+import { AlertService, alertService } from './alerts';
 import logger from '../utils/logger';
 
-export class SchedulerService {
+/**
+ * Runs the background jobs. Emits 'new_listings' with the tokens seen for
+ * the first time after each refresh, 'anomalies' with newly raised
+ * anomaly flags and 'alerts' with triggered alert rules.
+ */
+export class SchedulerService extends EventEmitter {
   private aggregator: TokenAggregator;
+  private snapshots: SnapshotStore;
+  private listings: NewListingDetector;
+  private anomalies: AnomalyTracker;
+  private alerts: AlertService;
   private jobs: cron.ScheduledTask[] = [];
 
-  constructor() {
+  constructor(snapshots: SnapshotStore = snapshotStore, alerts: AlertService = alertService) {
+    super();
     this.aggregator = new TokenAggregator();
+    this.snapshots = snapshots;
+    this.listings = new NewListingDetector();
+    this.anomalies = new AnomalyTracker();
+    this.alerts = alerts;
   }
 
   start(): void {
@@ -15,7 +34,25 @@ export class SchedulerService {
     const updateJob = cron.schedule('*/30 * * * * *', async () => {
       try {
         logger.info('Scheduled token update started...');
-        await this.aggregator.aggregateTokens();
+        const tokens = await this.aggregator.aggregateTokens();
+        await this.snapshots.record(tokens);
+
+        const newListings = this.listings.detect(tokens);
+        if (newListings.length > 0) {
+          this.emit('new_listings', newListings);
+        }
+
+        const anomalies = this.anomalies.track(tokens);
+        if (anomalies.length > 0) {
+          this.emit('anomalies', anomalies);
+        }
+
+        const triggers = await this.alerts.evaluate(tokens);
+        if (triggers.length > 0) {
+          this.emit('alerts', triggers);
+          // Webhook retries can take a while; they shouldn't hold up the refresh
+          void this.alerts.deliverWebhooks(triggers);
+        }
         logger.info('Scheduled token update completed');
       } catch (error) {
         logger.error('Scheduled token update failed:', error);
@@ -26,7 +63,8 @@ export class SchedulerService {
     const cacheCleanupJob = cron.schedule('*/5 * * * *', async () => {
       try {
         logger.debug('Cache cleanup job running...');
-        // Redis TTL handles expiration automatically, but we can add custom cleanup here if needed
+        // Redis TTL handles cache expiration; snapshot history needs retention and downsampling
+        await this.snapshots.downsample();
       } catch (error) {
         logger.error('Cache cleanup job failed:', error);
       }
@@ -0,0 +1,117 @@
+import crypto from 'crypto';
+import { ClientPreferences } from '../types/options';
+
+// Seconds a disconnected client's session is kept for it to resume
+const SESSION_TTL = parseInt(process.env.WEBSOCKET_SESSION_TTL || '120', 10);
+
+export interface ClientSession {
+  id: string;
+  preferences?: ClientPreferences;
+  addresses: string[]; // Token subscriptions to restore on resume
+  socketId?: string; // Unset while the client is disconnected
+  detachedAt?: number;
+}
+
+/**
+ * Sessions let a client that drops its connection pick up where it left off.
+ * A session outlives its socket by the TTL; after that the client has to
+ * subscribe again.
+ */
+export class SessionStore {
+  private sessions = new Map<string, ClientSession>();
+
+  constructor(private ttlMs: number = SESSION_TTL * 1000) {}
+
+  create(socketId: string, preferences?: ClientPreferences): ClientSession {
+    const session: ClientSession = {
+      id: crypto.randomBytes(16).toString('hex'),
+      preferences,
+      addresses: [],
+      socketId,
+    };
+    this.sessions.set(session.id, session);
+    return session;
+  }
+
+  get(id: unknown, now: number = Date.now()): ClientSession | undefined {
+    if (typeof id !== 'string') {
+      return undefined;
+    }
+    const session = this.sessions.get(id);
+    return session && !this.isExpired(session, now) ? session : undefined;
+  }
+
+  attach(session: ClientSession, socketId: string): void {
+    session.socketId = socketId;
+    session.detachedAt = undefined;
+  }
+
+  detach(session: ClientSession, now: number = Date.now()): void {
+    session.socketId = undefined;
+    session.detachedAt = now;
+  }
+
+  delete(id: string): void {
+    this.sessions.delete(id);
+  }
+
+  /**
+   * Drops sessions whose client has been gone longer than the TTL and returns
+   * them, so their caller can release what they held.
+   */
+  expire(now: number = Date.now()): ClientSession[] {
+    const expired = Array.from(this.sessions.values()).filter((session) =>
+      this.isExpired(session, now)
+    );
+    expired.forEach((session) => this.sessions.delete(session.id));
+    return expired;
+  }
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  private isExpired(session: ClientSession, now: number): boolean {
+    return session.detachedAt !== undefined && now - session.detachedAt > this.ttlMs;
+  }
+}
+
+/**
+ * The most recent sequenced messages of a view, oldest first. Messages beyond
+ * the capacity are dropped, so a client that fell too far behind gets null and
+ * needs a full snapshot instead.
+ */
+export class ReplayBuffer<T> {
+  private entries: { sequence: number; message: T }[] = [];
+
+  constructor(private capacity: number) {}
+
+  push(sequence: number, message: T): void {
+    this.entries.push({ sequence, message });
+    if (this.entries.length > this.capacity) {
+      this.entries.shift();
+    }
+  }
+
+  /**
+   * Messages sent after `sequence`, up to and including `latest`, or null when
+   * some of them are no longer buffered.
+   */
+  since(sequence: number, latest: number): T[] | null {
+    if (!Number.isInteger(sequence) || sequence > latest) {
+      return null;
+    }
+    if (sequence === latest) {
+      return [];
+    }
+    const first = this.entries[0];
+    if (!first || first.sequence > sequence + 1) {
+      return null;
+    }
+    return this.entries.filter((entry) => entry.sequence > sequence).map((entry) => entry.message);
+  }
+
+  clear(): void {
+    this.entries = [];
+  }
+}
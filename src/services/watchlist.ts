@@ -0,0 +1,189 @@
+import fs from 'fs';
+import path from 'path';
+import logger from '../utils/logger';
+
+const WATCHLIST_PATH =
+  process.env.WATCHLIST_PATH || path.join(process.cwd(), 'config', 'watchlist.json');
+
+// Solana addresses are 32-44 base58 characters
+export const MINT_PATTERN = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+const MAX_QUERY_LENGTH = 64;
+
+export interface Watchlist {
+  queries: string[]; // Free-text searches used for discovery
+  mints: string[]; // Token addresses that are always tracked
+}
+
+// Used when no watchlist file exists yet
+const DEFAULT_WATCHLIST: Watchlist = {
+  queries: [
+    'SOL', 'USDC', 'BONK', 'WIF', 'POPCAT',
+    'MYRO', 'SAMO', 'COPE', 'RAY', 'ORCA',
+    'JTO', 'PYTH', 'JUP', 'WEN', 'MEW',
+    'FIDA', 'STEP', 'MEDIA', 'ROPE'
+  ],
+  mints: [],
+};
+
+export class WatchlistValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WatchlistValidationError';
+  }
+}
+
+export class WatchlistService {
+  private filePath: string;
+  private watchlist: Watchlist;
+
+  constructor(filePath: string = WATCHLIST_PATH) {
+    this.filePath = filePath;
+    try {
+      this.watchlist = this.readFile();
+    } catch (error) {
+      logger.error(`Failed to load watchlist from ${this.filePath}, using defaults:`, error);
+      this.watchlist = this.normalize(DEFAULT_WATCHLIST);
+    }
+  }
+
+  get(): Watchlist {
+    return {
+      queries: [...this.watchlist.queries],
+      mints: [...this.watchlist.mints],
+    };
+  }
+
+  getQueries(): string[] {
+    return [...this.watchlist.queries];
+  }
+
+  getMints(): string[] {
+    return [...this.watchlist.mints];
+  }
+
+  getPath(): string {
+    return this.filePath;
+  }
+
+  /**
+   * Re-reads the watchlist file. The current watchlist is kept if the file
+   * is invalid, so a bad edit never empties discovery.
+   */
+  reload(): Watchlist {
+    this.watchlist = this.readFile();
+    logger.info(
+      `Watchlist reloaded: ${this.watchlist.queries.length} queries, ${this.watchlist.mints.length} mints`
+    );
+    return this.get();
+  }
+
+  async replace(watchlist: unknown): Promise<Watchlist> {
+    const next = this.normalize(watchlist);
+    await this.save(next);
+    return this.get();
+  }
+
+  async addQueries(queries: string[]): Promise<Watchlist> {
+    return this.update({ ...this.watchlist, queries: [...this.watchlist.queries, ...queries] });
+  }
+
+  async removeQuery(query: string): Promise<boolean> {
+    const queries = this.watchlist.queries.filter(
+      (existing) => existing.toLowerCase() !== query.trim().toLowerCase()
+    );
+    if (queries.length === this.watchlist.queries.length) {
+      return false;
+    }
+    await this.update({ ...this.watchlist, queries });
+    return true;
+  }
+
+  async addMints(mints: string[]): Promise<Watchlist> {
+    return this.update({ ...this.watchlist, mints: [...this.watchlist.mints, ...mints] });
+  }
+
+  async removeMint(mint: string): Promise<boolean> {
+    const mints = this.watchlist.mints.filter((existing) => existing !== mint.trim());
+    if (mints.length === this.watchlist.mints.length) {
+      return false;
+    }
+    await this.update({ ...this.watchlist, mints });
+    return true;
+  }
+
+  private async update(watchlist: Watchlist): Promise<Watchlist> {
+    await this.save(this.normalize(watchlist));
+    return this.get();
+  }
+
+  private readFile(): Watchlist {
+    if (!fs.existsSync(this.filePath)) {
+      logger.info(`No watchlist file at ${this.filePath}, using defaults`);
+      return this.normalize(DEFAULT_WATCHLIST);
+    }
+
+    const raw = fs.readFileSync(this.filePath, 'utf8');
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch (error) {
+      throw new WatchlistValidationError(
+        `Watchlist file is not valid JSON: ${error instanceof Error ? error.message : error}`
+      );
+    }
+    return this.normalize(parsed);
+  }
+
+  private async save(watchlist: Watchlist): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.writeFile(this.filePath, `${JSON.stringify(watchlist, null, 2)}\n`, 'utf8');
+    this.watchlist = watchlist;
+    logger.info(
+      `Watchlist saved: ${watchlist.queries.length} queries, ${watchlist.mints.length} mints`
+    );
+  }
+
+  private normalize(input: unknown): Watchlist {
+    if (!input || typeof input !== 'object') {
+      throw new WatchlistValidationError('Watchlist must be an object with "queries" and "mints"');
+    }
+
+    const { queries = [], mints = [] } = input as Partial<Record<keyof Watchlist, unknown>>;
+    if (!Array.isArray(queries) || !queries.every((q) => typeof q === 'string')) {
+      throw new WatchlistValidationError('"queries" must be an array of strings');
+    }
+    if (!Array.isArray(mints) || !mints.every((m) => typeof m === 'string')) {
+      throw new WatchlistValidationError('"mints" must be an array of strings');
+    }
+
+    const seenQueries = new Set<string>();
+    const normalizedQueries: string[] = [];
+    for (const query of queries.map((q: string) => q.trim()).filter(Boolean)) {
+      if (query.length > MAX_QUERY_LENGTH) {
+        throw new WatchlistValidationError(
+          `Query "${query.slice(0, 16)}..." exceeds ${MAX_QUERY_LENGTH} characters`
+        );
+      }
+      // Tickers are matched case-insensitively upstream, so "bonk" and "BONK" are the same query
+      if (!seenQueries.has(query.toLowerCase())) {
+        seenQueries.add(query.toLowerCase());
+        normalizedQueries.push(query);
+      }
+    }
+
+    const normalizedMints: string[] = [];
+    for (const mint of mints.map((m: string) => m.trim()).filter(Boolean)) {
+      if (!MINT_PATTERN.test(mint)) {
+        throw new WatchlistValidationError(`"${mint}" is not a valid Solana mint address`);
+      }
+      // Base58 is case-sensitive, so mints are compared exactly
+      if (!normalizedMints.includes(mint)) {
+        normalizedMints.push(mint);
+      }
+    }
+
+    return { queries: normalizedQueries, mints: normalizedMints };
+  }
+}
+
+export const watchlistService = new WatchlistService();
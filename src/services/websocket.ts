@@ -1,20 +1,109 @@
-import { Server as SocketIOServer } from 'socket.io';
+import { Server as SocketIOServer, Socket } from 'socket.io';
 import { Server as HTTPServer } from 'http';
-import { Token, FilterOptions, SortOptions, PaginationOptions } from '../types/token';
+import { Token } from '../types/token';
+import {
+  ClientPreferences,
+  PaginationOptions,
+  clientPreferencesSchema,
+  validationIssues,
+} from '../types/options';
 import { TokenAggregator } from './aggregator';
+import { stripProvenance } from './consensus';
+import { AnomalyEvent } from './anomalies';
+import { AlertTrigger, alertService } from './alerts';
+import { TokenDelta, diffTokens, isEmptyDelta } from './delta';
+import { normalizePreferences, roomFor } from './rooms';
+import { ClientSession, ReplayBuffer, SessionStore } from './sessions';
+import { MINT_PATTERN } from './watchlist';
 import logger from '../utils/logger';
 
-interface ClientPreferences {
-  filter?: FilterOptions;
-  sort?: SortOptions;
-  pagination?: PaginationOptions;
+// Seconds between full snapshots that replace whatever state a client has built from deltas
+const FULL_RESYNC_INTERVAL = parseInt(process.env.WEBSOCKET_FULL_RESYNC_INTERVAL || '60', 10);
+const MAX_TOKEN_SUBSCRIPTIONS = parseInt(process.env.WEBSOCKET_MAX_TOKEN_SUBSCRIPTIONS || '20', 10);
+// Distinct tokens followed across all connections; bounds the address lookups made per refresh
+const MAX_FOLLOWED_TOKENS = parseInt(process.env.WEBSOCKET_MAX_FOLLOWED_TOKENS || '300', 10);
+// Deltas kept per view for resuming clients to catch up on
+const REPLAY_BUFFER_SIZE = parseInt(process.env.WEBSOCKET_REPLAY_BUFFER || '100', 10);
+
+interface DeltaUpdate extends TokenDelta {
+  sequence: number;
+  timestamp: number;
+  type: 'delta';
+}
+
+interface FullUpdate {
+  tokens: Token[];
+  sequence: number;
+  timestamp: number;
+  type: 'full';
+}
+
+/**
+ * One view shared by every socket with the same normalized preferences.
+ * Sequence and token state belong to the room, since its members all
+ * receive the same messages.
+ */
+interface ViewRoom {
+  preferences: ClientPreferences;
+  members: Set<string>;
+  pendingFull: Set<string>; // Joined since the last update; owed a full update
+  sequence: number;
+  tokens: Token[] | null; // What members last received, null until first computed
+  lastFullAt: number;
+  history: ReplayBuffer<DeltaUpdate>; // Recent deltas, for resuming clients
+  detached: Set<string>; // Sessions of disconnected members, which keep the room alive
+  streams: Map<string, UpdateStream>;
+  epoch: string; // Tells stream event ids from a previous room with the same view apart
+}
+
+/**
+ * A client fed from a view room outside Socket.IO, such as a Server-Sent
+ * Events response. It gets the same events and payloads as the room's
+ * sockets; 'tokens:update' comes with an event id to resume from.
+ */
+export interface UpdateStream {
+  id: string;
+  send(event: string, data: unknown, eventId?: string): void;
+}
+
+export interface WebSocketMetrics {
+  clients: number;
+  rooms: number;
+  largest_room: number;
+  followed_tokens: number; // Distinct addresses with at least one subscribed socket
+  sessions: number; // Including those of disconnected clients that may still resume
+  streams: number;
+}
+
+function socketTarget(socket: Socket): UpdateStream {
+  return { id: socket.id, send: (event, data) => socket.emit(event, data) };
+}
+
+function eventId(room: ViewRoom, sequence: number): string {
+  return `${room.epoch}:${sequence}`;
+}
+
+function tokenRoom(address: string): string {
+  return `token:${address}`;
+}
+
+// Volatile fields such as age_seconds are left out of diffs, so they don't count
+function hasChanged(previous: Token, next: Token): boolean {
+  return diffTokens([previous], [next]).changed.length > 0;
 }
 
 export class WebSocketService {
   private io: SocketIOServer;
   private aggregator: TokenAggregator;
   private updateInterval: NodeJS.Timeout | null = null;
-  private connectedClients = new Map<string, ClientPreferences>();
+  private connectedClients = new Map<string, string>(); // Socket id -> room
+  private rooms = new Map<string, ViewRoom>();
+  // Socket id -> lowercased address -> address as sent, whose casing upstream lookups need
+  private tokenSubscriptions = new Map<string, Map<string, string>>();
+  private followedTokens = new Map<string, Token>(); // Lowercased address -> last token pushed
+  private sessions = new SessionStore();
+  private socketSessions = new Map<string, ClientSession>(); // Socket id -> its session
+  private streamRooms = new Map<string, string>(); // Stream id -> room
 
   constructor(httpServer: HTTPServer) {
     this.io = new SocketIOServer(httpServer, {
@@ -29,92 +118,602 @@ export class WebSocketService {
 
   private setupEventHandlers(): void {
     this.io.on('connection', (socket) => {
-      this.connectedClients.set(socket.id, {});
+      // Until it subscribes, a socket follows the default view from the next tick
+      this.joinRoom(socket, {});
       logger.info(`Client connected: ${socket.id} (Total: ${this.connectedClients.size})`);
 
       socket.on('disconnect', () => {
+        this.detachSession(socket);
+        this.leaveRoom(socket);
+        this.unsubscribeTokens(socket, this.subscribedAddresses(socket.id));
+        this.tokenSubscriptions.delete(socket.id);
         this.connectedClients.delete(socket.id);
         logger.info(`Client disconnected: ${socket.id} (Total: ${this.connectedClients.size})`);
       });
 
-      socket.on('subscribe', (preferences?: ClientPreferences) => {
-        if (preferences) {
-          this.connectedClients.set(socket.id, preferences);
+      socket.on('subscribe', (input?: unknown) => {
+        const preferences = this.parsePreferences(socket, input);
+        if (!preferences) {
+          return;
+        }
+        if (input) {
           logger.info(`Client ${socket.id} subscribed with preferences:`, preferences);
         } else {
           logger.info(`Client ${socket.id} subscribed to updates`);
         }
-        socket.emit('subscribed', { message: 'Subscribed to real-time updates' });
+        this.joinRoom(socket, preferences);
+        const session = this.socketSessions.get(socket.id) || this.createSession(socket);
+        session.preferences = preferences;
+        socket.emit('subscribed', {
+          message: 'Subscribed to real-time updates',
+          session: session.id,
+        });
         // Send initial data with preferences
-        this.sendInitialData(socket, preferences);
+        this.sendInitialData(socket);
       });
 
-      socket.on('updatePreferences', (preferences: ClientPreferences) => {
-        this.connectedClients.set(socket.id, preferences);
+      socket.on('updatePreferences', (input: unknown) => {
+        const preferences = this.parsePreferences(socket, input);
+        if (!preferences) {
+          return;
+        }
         logger.info(`Client ${socket.id} updated preferences:`, preferences);
-        // Send updated data immediately
-        this.sendFilteredData(socket, preferences);
+        this.joinRoom(socket, preferences);
+        const session = this.socketSessions.get(socket.id);
+        if (session) {
+          session.preferences = preferences;
+        }
+        // A different view invalidates the client's state, so start over with a full update
+        this.sendInitialData(socket);
+      });
+
+      // Clients that notice a gap in sequence numbers ask for a full update
+      socket.on('resync', () => {
+        logger.debug(`Client ${socket.id} requested a resync`);
+        this.sendInitialData(socket);
+      });
+
+      socket.on('resume', (request?: { session?: string; sequence?: number }) => {
+        this.resumeSession(socket, request?.session, request?.sequence);
+      });
+
+      socket.on('subscribe:token', (addresses: string | string[]) => {
+        this.subscribeTokens(socket, addresses);
+      });
+
+      socket.on('unsubscribe:token', (addresses: string | string[]) => {
+        this.unsubscribeTokens(socket, addresses);
+        socket.emit('token:subscribed', {
+          addresses: this.subscribedAddresses(socket.id),
+        });
       });
     });
   }
 
-  private async sendInitialData(socket: any, preferences?: ClientPreferences): Promise<void> {
-    try {
-      const tokens = await this.aggregateAndProcessTokens(preferences);
-      socket.emit('tokens:update', {
-        tokens,
-        timestamp: Date.now(),
-        type: 'full',
+  /**
+   * Validates the preferences a client sent. Invalid ones are answered with
+   * an 'error' listing the failing fields and leave the socket's view as it
+   * was; missing ones mean the default view.
+   */
+  private parsePreferences(socket: Socket, input: unknown): ClientPreferences | null {
+    const result = clientPreferencesSchema.safeParse(input ?? {});
+    if (!result.success) {
+      socket.emit('error', {
+        message: 'Invalid preferences',
+        details: validationIssues(result.error),
       });
-    } catch (error) {
-      logger.error('Error sending initial data:', error);
-      socket.emit('error', { message: 'Failed to fetch initial data' });
+      return null;
     }
+    return result.data;
   }
 
-  private async sendFilteredData(socket: any, preferences?: ClientPreferences): Promise<void> {
+  /**
+   * Follows specific tokens for a socket, independent of its list view. The
+   * socket gets each token's current data right away and a 'token:update'
+   * whenever it changes after that.
+   */
+  private async subscribeTokens(socket: Socket, input: string | string[]): Promise<void> {
+    const addresses = toAddressList(input);
+    if (addresses.length === 0) {
+      socket.emit('error', {
+        message: 'subscribe:token expects a token address or an array of them',
+      });
+      return;
+    }
+    const invalid = addresses.filter((address) => !MINT_PATTERN.test(address));
+    if (invalid.length > 0) {
+      socket.emit('error', {
+        message: `Not valid Solana mint addresses: ${invalid.join(', ')}`,
+      });
+      return;
+    }
+
+    const subscribed = this.tokenSubscriptions.get(socket.id) || new Map<string, string>();
+    const added = addresses.filter((address) => !subscribed.has(address.toLowerCase()));
+    if (subscribed.size + added.length > MAX_TOKEN_SUBSCRIPTIONS) {
+      socket.emit('error', {
+        message: `Token subscription limit of ${MAX_TOKEN_SUBSCRIPTIONS} per connection reached`,
+      });
+      return;
+    }
+    const followed = this.followedAddresses();
+    const newlyFollowed = added.filter((address) => !followed.has(address.toLowerCase()));
+    if (followed.size + newlyFollowed.length > MAX_FOLLOWED_TOKENS) {
+      socket.emit('error', {
+        message: 'The server is following as many tokens as it can, try again later',
+      });
+      return;
+    }
+
+    added.forEach((address) => {
+      subscribed.set(address.toLowerCase(), address);
+      socket.join(tokenRoom(address.toLowerCase()));
+    });
+    this.tokenSubscriptions.set(socket.id, subscribed);
+
     try {
-      const tokens = await this.aggregateAndProcessTokens(preferences);
-      socket.emit('tokens:update', {
-        tokens,
+      const unknown = added.filter((address) => !this.followedTokens.has(address.toLowerCase()));
+      const fetched = await this.aggregator.getTokensByAddress(unknown);
+      fetched.forEach((token) => this.followedTokens.set(token.token_address.toLowerCase(), token));
+
+      const missing = added.filter((address) => !this.followedTokens.has(address.toLowerCase()));
+      socket.emit('token:subscribed', { addresses: this.subscribedAddresses(socket.id), missing });
+
+      for (const address of added) {
+        const token = this.followedTokens.get(address.toLowerCase());
+        if (token) {
+          socket.emit('token:update', {
+            token: stripProvenance([token])[0],
+            timestamp: Date.now(),
+          });
+        }
+      }
+    } catch (error) {
+      logger.error('Error sending subscribed tokens:', error);
+      socket.emit('error', { message: 'Failed to fetch subscribed tokens' });
+    }
+  }
+
+  private unsubscribeTokens(socket: Socket, input: string | string[]): void {
+    const subscribed = this.tokenSubscriptions.get(socket.id);
+    if (!subscribed) {
+      return;
+    }
+
+    for (const address of toAddressList(input)) {
+      const key = address.toLowerCase();
+      if (!subscribed.delete(key)) {
+        continue;
+      }
+      socket.leave(tokenRoom(key));
+      // Stop tracking tokens nobody follows any more
+      const stillFollowed = Array.from(this.tokenSubscriptions.values()).some((followed) =>
+        followed.has(key)
+      );
+      if (!stillFollowed) {
+        this.followedTokens.delete(key);
+      }
+    }
+  }
+
+  // Lowercased addresses at least one socket follows
+  private followedAddresses(): Set<string> {
+    const followed = new Set<string>();
+    this.tokenSubscriptions.forEach((addresses) =>
+      addresses.forEach((_, key) => followed.add(key))
+    );
+    return followed;
+  }
+
+  private subscribedAddresses(socketId: string): string[] {
+    return Array.from(this.tokenSubscriptions.get(socketId)?.values() || []);
+  }
+
+  /**
+   * Pushes 'token:update' to the followers of every subscribed token whose
+   * merged data changed since it was last pushed, wherever it ranks.
+   */
+  private async pushTokenUpdates(): Promise<void> {
+    const addresses = new Map<string, string>();
+    this.tokenSubscriptions.forEach((followed) =>
+      followed.forEach((address, key) => addresses.set(key, address))
+    );
+    if (addresses.size === 0) {
+      return;
+    }
+
+    const tokens = await this.aggregator.getTokensByAddress(Array.from(addresses.values()));
+    for (const token of tokens) {
+      const address = token.token_address.toLowerCase();
+      const previous = this.followedTokens.get(address);
+      // Skip tokens unsubscribed while the lookup was in flight
+      if (!addresses.has(address) || (previous && !hasChanged(previous, token))) {
+        continue;
+      }
+      this.followedTokens.set(address, token);
+      this.io.to(tokenRoom(address)).emit('token:update', {
+        token: stripProvenance([token])[0],
         timestamp: Date.now(),
-        type: 'full',
       });
-    } catch (error) {
-      logger.error('Error sending filtered data:', error);
-      socket.emit('error', { message: 'Failed to fetch filtered data' });
     }
   }
 
-  private async aggregateAndProcessTokens(preferences?: ClientPreferences): Promise<Token[]> {
+  private createSession(socket: Socket): ClientSession {
+    const session = this.sessions.create(socket.id);
+    this.socketSessions.set(socket.id, session);
+    return session;
+  }
+
+  /**
+   * Keeps a disconnecting socket's session, with its view and token
+   * subscriptions, until the session TTL runs out. Its room stays alive
+   * meanwhile so the deltas the client misses stay buffered.
+   */
+  private detachSession(socket: Socket): void {
+    const session = this.socketSessions.get(socket.id);
+    if (!session) {
+      return;
+    }
+
+    this.socketSessions.delete(socket.id);
+    session.addresses = this.subscribedAddresses(socket.id);
+    this.sessions.detach(session);
+    this.rooms.get(roomFor(session.preferences))?.detached.add(session.id);
+  }
+
+  /**
+   * Restores a session on a new socket: its view and token subscriptions come
+   * back and the deltas sent after `sequence` are replayed, so the client's
+   * state carries on where it stopped. A client that missed more than the
+   * room buffers gets a full update instead.
+   */
+  private resumeSession(socket: Socket, sessionId: unknown, sequence: unknown): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      socket.emit('resumed', {
+        resumed: false,
+        message: 'Unknown or expired session, subscribe again',
+      });
+      return;
+    }
+
+    // Replaces any session this socket started before resuming
+    const current = this.socketSessions.get(socket.id);
+    if (current && current !== session) {
+      this.sessions.delete(current.id);
+    }
+
+    const roomId = roomFor(session.preferences);
+    this.joinRoom(socket, session.preferences);
+    const room = this.rooms.get(roomId);
+    if (!room) {
+      return;
+    }
+    room.detached.delete(session.id);
+
+    // A client that reconnects before its old connection timed out takes the session over
+    let addresses = session.addresses;
+    const previous = session.socketId ? this.io.sockets.sockets.get(session.socketId) : undefined;
+    if (previous && previous.id !== socket.id) {
+      addresses = this.subscribedAddresses(previous.id);
+      this.socketSessions.delete(previous.id);
+      previous.disconnect(true);
+    }
+    this.sessions.attach(session, socket.id);
+    this.socketSessions.set(socket.id, session);
+    logger.info(`Client ${socket.id} resumed session from sequence ${sequence}`);
+
+    socket.emit('resumed', {
+      resumed: true,
+      session: session.id,
+      preferences: session.preferences,
+    });
+
+    this.catchUp(roomId, room, socketTarget(socket), Number(sequence));
+
+    if (addresses.length > 0) {
+      this.subscribeTokens(socket, addresses);
+    }
+  }
+
+  /**
+   * Attaches a stream to the room for its preferences, where it is updated
+   * like a subscribed socket. A stream that reconnects with the id of the last
+   * event it received gets the deltas it missed when the room still has them,
+   * and a full update otherwise.
+   */
+  async addStream(
+    stream: UpdateStream,
+    preferences: ClientPreferences,
+    lastEventId?: string
+  ): Promise<void> {
+    const roomId = roomFor(preferences);
+    const room = this.getOrCreateRoom(roomId, preferences);
+    room.streams.set(stream.id, stream);
+    room.pendingFull.add(stream.id);
+    this.streamRooms.set(stream.id, roomId);
+
+    const [epoch, sequence] = (lastEventId || '').split(':');
+    await this.catchUp(roomId, room, stream, epoch === room.epoch ? Number(sequence) : NaN);
+  }
+
+  removeStream(streamId: string): void {
+    const roomId = this.streamRooms.get(streamId);
+    const room = roomId ? this.rooms.get(roomId) : undefined;
+    this.streamRooms.delete(streamId);
+    if (!roomId || !room) {
+      return;
+    }
+
+    room.streams.delete(streamId);
+    room.pendingFull.delete(streamId);
+    this.releaseRoom(roomId, room);
+  }
+
+  /**
+   * Brings a client that has seen the room up to `sequence` up to date by
+   * replaying the deltas since, or with a full update when they are no longer
+   * buffered.
+   */
+  private async catchUp(
+    roomId: string,
+    room: ViewRoom,
+    target: UpdateStream,
+    sequence: number
+  ): Promise<void> {
+    const missed = room.tokens === null ? null : room.history.since(sequence, room.sequence);
+    if (!missed) {
+      await this.sendRoomState(roomId, target);
+      return;
+    }
+
+    room.pendingFull.delete(target.id);
+    missed.forEach((update) =>
+      target.send('tokens:update', update, eventId(room, update.sequence))
+    );
+  }
+
+  private expireSessions(): void {
+    for (const session of this.sessions.expire()) {
+      const roomId = roomFor(session.preferences);
+      const room = this.rooms.get(roomId);
+      if (room) {
+        room.detached.delete(session.id);
+        this.releaseRoom(roomId, room);
+      }
+    }
+  }
+
+  private joinRoom(socket: Socket, preferences?: ClientPreferences): void {
+    const roomId = roomFor(preferences);
+    if (this.connectedClients.get(socket.id) === roomId) {
+      return;
+    }
+    this.leaveRoom(socket);
+
+    const room = this.getOrCreateRoom(roomId, preferences);
+    room.members.add(socket.id);
+    room.pendingFull.add(socket.id);
+    socket.join(roomId);
+    this.connectedClients.set(socket.id, roomId);
+  }
+
+  private getOrCreateRoom(roomId: string, preferences?: ClientPreferences): ViewRoom {
+    let room = this.rooms.get(roomId);
+    if (!room) {
+      room = {
+        preferences: normalizePreferences(preferences),
+        members: new Set(),
+        pendingFull: new Set(),
+        sequence: 0,
+        tokens: null,
+        lastFullAt: 0,
+        history: new ReplayBuffer(REPLAY_BUFFER_SIZE),
+        detached: new Set(),
+        streams: new Map(),
+        epoch: Date.now().toString(36),
+      };
+      this.rooms.set(roomId, room);
+    }
+    return room;
+  }
+
+  private leaveRoom(socket: Socket): void {
+    const roomId = this.connectedClients.get(socket.id);
+    const room = roomId ? this.rooms.get(roomId) : undefined;
+    if (!roomId || !room) {
+      return;
+    }
+
+    socket.leave(roomId);
+    room.members.delete(socket.id);
+    room.pendingFull.delete(socket.id);
+    this.releaseRoom(roomId, room);
+  }
+
+  private releaseRoom(roomId: string, room: ViewRoom): void {
+    if (room.members.size === 0 && room.detached.size === 0 && room.streams.size === 0) {
+      this.rooms.delete(roomId);
+    }
+  }
+
+  /**
+   * Sends a socket its room's current view with the room's sequence, so the
+   * room's next delta applies cleanly. A room nobody has received anything
+   * from yet is computed first.
+   */
+  private async sendInitialData(socket: Socket): Promise<void> {
+    const roomId = this.connectedClients.get(socket.id);
+    if (roomId) {
+      await this.sendRoomState(roomId, socketTarget(socket));
+    }
+  }
+
+  private async sendRoomState(roomId: string, target: UpdateStream): Promise<void> {
     try {
-      // Get all tokens
-      let tokens = await this.aggregator.aggregateTokens();
+      const room = this.rooms.get(roomId);
+      if (!room) {
+        return;
+      }
 
-      // If no tokens, return empty array
-      if (!tokens || tokens.length === 0) {
-        logger.warn('No tokens available to process');
-        return [];
+      if (room.tokens === null) {
+        const tokens = await this.aggregator.aggregateTokens();
+        this.updateRoom(roomId, room, tokens);
+        return;
       }
 
-      // Apply filters if provided
-      if (preferences?.filter) {
-        tokens = this.aggregator.filterTokens(tokens, preferences.filter);
+      room.pendingFull.delete(target.id);
+      this.emitFull(target, room);
+    } catch (error) {
+      logger.error('Error sending initial data:', error);
+      target.send('error', { message: 'Failed to fetch initial data' });
+    }
+  }
+
+  /**
+   * Computes a room's view from the aggregated tokens and sends what changed
+   * since its last update as a delta, or nothing when nothing changed. The
+   * whole room gets a full update instead when it has no state yet or its
+   * last full update is older than the resync interval; members that joined
+   * since the last update get a full update either way.
+   */
+  private updateRoom(roomId: string, room: ViewRoom, aggregated: Token[]): void {
+    const tokens = this.processTokens(aggregated, room.preferences);
+    const now = Date.now();
+
+    if (room.tokens === null || now - room.lastFullAt >= FULL_RESYNC_INTERVAL * 1000) {
+      this.emitRoomFull(roomId, room, tokens);
+      return;
+    }
+
+    const pending = Array.from(room.pendingFull);
+    room.pendingFull.clear();
+
+    const delta = diffTokens(room.tokens, tokens);
+    if (!isEmptyDelta(delta)) {
+      room.sequence += 1;
+      room.tokens = tokens;
+      const update: DeltaUpdate = {
+        ...delta,
+        sequence: room.sequence,
+        timestamp: now,
+        type: 'delta',
+      };
+      room.history.push(room.sequence, update);
+      this.emitToRoom(roomId, room, update, pending);
+    }
+
+    for (const id of pending) {
+      const socket = this.io.sockets.sockets.get(id);
+      const target = socket ? socketTarget(socket) : room.streams.get(id);
+      if (target) {
+        this.emitFull(target, room);
       }
+    }
+  }
+
+  private emitRoomFull(roomId: string, room: ViewRoom, tokens: Token[]): void {
+    room.sequence += 1;
+    room.lastFullAt = Date.now();
+    room.pendingFull.clear();
+    // Buffered as a delta too, so resuming clients can catch up across full updates
+    if (room.tokens === null) {
+      room.history.clear();
+    } else {
+      room.history.push(room.sequence, {
+        ...diffTokens(room.tokens, tokens),
+        sequence: room.sequence,
+        timestamp: room.lastFullAt,
+        type: 'delta',
+      });
+    }
+    room.tokens = tokens;
+    this.emitToRoom(roomId, room, {
+      tokens,
+      sequence: room.sequence,
+      timestamp: room.lastFullAt,
+      type: 'full',
+    });
+  }
 
-      // Apply sorting if provided
-      if (preferences?.sort) {
-        tokens = this.aggregator.sortTokens(tokens, preferences.sort);
+  private emitToRoom(
+    roomId: string,
+    room: ViewRoom,
+    update: DeltaUpdate | FullUpdate,
+    except: string[] = []
+  ): void {
+    this.io.to(roomId).except(except).emit('tokens:update', update);
+    room.streams.forEach((stream, id) => {
+      if (!except.includes(id)) {
+        stream.send('tokens:update', update, eventId(room, update.sequence));
       }
+    });
+  }
 
-      // Apply pagination if provided (default to 25 tokens per page)
-      const paginationOptions: PaginationOptions = preferences?.pagination || { limit: 25 };
-      const { tokens: paginatedTokens } = this.aggregator.paginateTokens(tokens, paginationOptions);
+  private emitFull(target: UpdateStream, room: ViewRoom): void {
+    const update: FullUpdate = {
+      tokens: room.tokens || [],
+      sequence: room.sequence,
+      timestamp: Date.now(),
+      type: 'full',
+    };
+    target.send('tokens:update', update, eventId(room, room.sequence));
+  }
+
+  // Events every client gets, whatever its view
+  private broadcast(event: string, data: unknown): void {
+    this.io.emit(event, data);
+    this.rooms.forEach((room) => room.streams.forEach((stream) => stream.send(event, data)));
+  }
+
+  private processTokens(aggregated: Token[], preferences: ClientPreferences): Token[] {
+    let tokens = aggregated;
+
+    // If no tokens, return empty array
+    if (!tokens || tokens.length === 0) {
+      return [];
+    }
+
+    // Apply filters if provided
+    if (preferences.filter) {
+      tokens = this.aggregator.filterTokens(tokens, preferences.filter);
+    }
+
+    // Apply sorting if provided
+    if (preferences.sort) {
+      tokens = this.aggregator.sortTokens(tokens, preferences.sort);
+    }
 
-      return paginatedTokens;
+    // Normalized preferences always carry pagination (25 tokens per page by default)
+    const paginationOptions: PaginationOptions = preferences.pagination || { limit: 25 };
+    const { tokens: paginatedTokens } = this.aggregator.paginateTokens(tokens, paginationOptions);
+
+    return preferences.include?.includes('provenance')
+      ? paginatedTokens
+      : stripProvenance(paginatedTokens);
+  }
+
+  private async refresh(): Promise<void> {
+    this.expireSessions();
+    // Rooms kept only by detached sessions still update, so their clients can catch up
+    if (this.rooms.size === 0) {
+      return; // Don't fetch if no clients connected
+    }
+
+    try {
+      // Each room's view is computed once and broadcast to every socket in it
+      const tokens = await this.aggregator.aggregateTokens();
+      if (tokens.length === 0) {
+        logger.warn('No tokens available to process');
+      }
+      this.rooms.forEach((room, roomId) => this.updateRoom(roomId, room, tokens));
+      await this.pushTokenUpdates();
+
+      logger.debug(
+        `Sent updates for ${this.rooms.size} views to ${this.connectedClients.size} clients`
+      );
     } catch (error) {
-      logger.error('Error aggregating and processing tokens:', error);
-      return []; // Return empty array on error instead of crashing
+      logger.error('Error in periodic update:', error);
     }
   }
 
@@ -123,37 +722,42 @@ export class WebSocketService {
       clearInterval(this.updateInterval);
     }
 
-    this.updateInterval = setInterval(async () => {
-      if (this.connectedClients.size === 0) {
-        return; // Don't fetch if no clients connected
-      }
-
-      try {
-        // Send personalized updates to each client based on their preferences
-        // Each client gets fresh data filtered/sorted/paginated according to their preferences
-        this.connectedClients.forEach((preferences, clientId) => {
-          const socket = this.io.sockets.sockets.get(clientId);
-          if (socket && socket.connected) {
-            this.sendFilteredData(socket, preferences);
-          }
-        });
-
-        logger.debug(`Sent updates to ${this.connectedClients.size} clients`);
-      } catch (error) {
-        logger.error('Error in periodic update:', error);
-      }
-    }, intervalSeconds * 1000);
+    this.updateInterval = setInterval(() => this.refresh(), intervalSeconds * 1000);
 
     logger.info(`Started periodic WebSocket updates every ${intervalSeconds} seconds`);
   }
 
 
   broadcastUpdate(tokens: Token[]): void {
-    this.io.emit('tokens:update', {
-      tokens,
-      timestamp: Date.now(),
-      type: 'full',
-    });
+    const stripped = stripProvenance(tokens);
+    // Sent per room so every client's sequence stays continuous
+    this.rooms.forEach((room, roomId) => this.emitRoomFull(roomId, room, stripped));
+  }
+
+  broadcastNewListings(tokens: Token[]): void {
+    for (const token of stripProvenance(tokens)) {
+      this.broadcast('new_listing', {
+        token,
+        timestamp: Date.now(),
+      });
+    }
+  }
+
+  broadcastAnomalies(events: AnomalyEvent[]): void {
+    for (const event of events) {
+      const [token] = stripProvenance([event.token]);
+      this.broadcast('anomaly', {
+        token,
+        flags: event.flags,
+        timestamp: Date.now(),
+      });
+    }
+  }
+
+  broadcastAlerts(triggers: AlertTrigger[]): void {
+    for (const trigger of triggers) {
+      this.broadcast('alert', alertService.toPublicPayload(trigger));
+    }
   }
 
   stop(): void {
@@ -167,5 +771,30 @@ export class WebSocketService {
   getConnectedClientsCount(): number {
     return this.connectedClients.size;
   }
+
+  getMetrics(): WebSocketMetrics {
+    const sizes = Array.from(this.rooms.values()).map((room) => room.members.size);
+    return {
+      clients: this.connectedClients.size,
+      rooms: this.rooms.size,
+      largest_room: sizes.length > 0 ? Math.max(...sizes) : 0,
+      followed_tokens: this.followedTokens.size,
+      sessions: this.sessions.size,
+      streams: this.streamRooms.size,
+    };
+  }
 }
 
+// Duplicates are dropped case-insensitively, but the casing sent is kept: base58
+// mints are case-sensitive to the upstream APIs, only our keys are lowercased
+function toAddressList(input: unknown): string[] {
+  const list = Array.isArray(input) ? input : [input];
+  const addresses = new Map<string, string>();
+  for (const item of list) {
+    const address = typeof item === 'string' ? item.trim() : '';
+    if (address && !addresses.has(address.toLowerCase())) {
+      addresses.set(address.toLowerCase(), address);
+    }
+  }
+  return Array.from(addresses.values());
+}
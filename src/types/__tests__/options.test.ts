@@ -0,0 +1,60 @@
+import {
+  clientPreferencesSchema,
+  filterOptionsSchema,
+  includeQuerySchema,
+  paginationOptionsSchema,
+  sortOptionsSchema,
+  validationIssues,
+} from '../options';
+
+describe('option schemas', () => {
+  it('should read numbers and booleans from query strings and JSON alike', () => {
+    const fromQuery = filterOptionsSchema.parse({ minVolume: '100', excludeAnomalies: 'true' });
+    const fromJson = filterOptionsSchema.parse({ minVolume: 100, excludeAnomalies: true });
+
+    expect(fromQuery).toEqual({ minVolume: 100, excludeAnomalies: true });
+    expect(fromJson).toEqual(fromQuery);
+    expect(paginationOptionsSchema.parse({ limit: '10', cursor: 20 })).toEqual({
+      limit: 10,
+      cursor: '20',
+    });
+  });
+
+  it('should read include lists from comma-separated query strings and JSON alike', () => {
+    expect(includeQuerySchema.parse(' provenance, ')).toEqual(['provenance']);
+    expect(includeQuerySchema.parse(['provenance'])).toEqual(['provenance']);
+    expect(includeQuerySchema.safeParse('provenance,bogus').success).toBe(false);
+  });
+
+  it('should default the sort to volume, descending', () => {
+    expect(sortOptionsSchema.parse({})).toEqual({ field: 'volume', order: 'desc' });
+  });
+
+  it('should list every failing field', () => {
+    const result = clientPreferencesSchema.safeParse({
+      filter: { minVolume: 'lots', timePeriod: '2h' },
+      sort: { field: 'hype' },
+      pagination: { limit: 0, cursor: '-5' },
+      include: ['secrets'],
+    });
+
+    expect(result.success).toBe(false);
+    const fields = validationIssues(result.error!).map((issue) => issue.field);
+    expect(fields.sort()).toEqual([
+      'filter.minVolume',
+      'filter.timePeriod',
+      'include.0',
+      'pagination.cursor',
+      'pagination.limit',
+      'sort.field',
+    ]);
+  });
+
+  it('should reject values outside their ranges', () => {
+    expect(filterOptionsSchema.safeParse({ maxRisk: 101 }).success).toBe(false);
+    expect(filterOptionsSchema.safeParse({ minAge: -1 }).success).toBe(false);
+    expect(filterOptionsSchema.safeParse({ excludeAnomalies: 'yes' }).success).toBe(false);
+    expect(paginationOptionsSchema.safeParse({ limit: 500 }).success).toBe(false);
+    expect(paginationOptionsSchema.safeParse({ limit: 2.5 }).success).toBe(false);
+  });
+});
@@ -0,0 +1,121 @@
+import { z } from 'zod';
+
+/*
+ * Options clients send to shape a token list, shared by the REST API (as
+ * query strings) and the WebSocket feeds (as JSON). The types are inferred
+ * from the schemas so the two can't drift apart.
+ */
+
+// Query strings carry numbers and booleans as text, JSON payloads as values
+function numeric<T extends z.ZodTypeAny>(schema: T) {
+  return z.preprocess(
+    (value) => (typeof value === 'string' && value.trim() !== '' ? Number(value) : value),
+    schema
+  );
+}
+
+// Query strings carry lists as comma-separated text, JSON payloads as arrays
+function commaSeparated<T extends z.ZodTypeAny>(schema: T) {
+  return z.preprocess(
+    (value) =>
+      typeof value === 'string'
+        ? value
+            .split(',')
+            .map((item) => item.trim())
+            .filter((item) => item !== '')
+        : value,
+    schema
+  );
+}
+
+const booleanLike = z.preprocess(
+  (value) => (value === 'true' ? true : value === 'false' ? false : value),
+  z.boolean()
+);
+
+export const timePeriodSchema = z.enum(['5m', '1h', '6h', '24h', '7d']);
+export type TimePeriod = z.infer<typeof timePeriodSchema>;
+
+export const anomalyFlagSchema = z.enum([
+  'implausible_volume_per_trade',
+  'volume_spike_without_liquidity',
+  'symmetric_trades',
+]);
+export type AnomalyFlag = z.infer<typeof anomalyFlagSchema>;
+
+export const filterOptionsSchema = z.object({
+  timePeriod: timePeriodSchema.optional(),
+  minVolume: numeric(z.number().min(0)).optional(),
+  minLiquidity: numeric(z.number().min(0)).optional(),
+  protocol: z.string().optional(),
+  minAge: numeric(z.number().min(0)).optional(), // Seconds since created_at
+  maxAge: numeric(z.number().min(0)).optional(),
+  maxRisk: numeric(z.number().min(0).max(100)).optional(), // Highest risk_score to include
+  excludeAnomalies: booleanLike.optional(), // Drop tokens with any anomaly flag
+  anomaly: anomalyFlagSchema.optional(), // Keep only tokens carrying this flag
+});
+export type FilterOptions = z.infer<typeof filterOptionsSchema>;
+
+export const sortOptionsSchema = z.object({
+  field: z
+    .enum([
+      'volume',
+      'price_change',
+      'market_cap',
+      'liquidity',
+      'transaction_count',
+      'buy_sell_ratio',
+    ])
+    .default('volume'),
+  order: z.enum(['asc', 'desc']).default('desc'),
+  timePeriod: timePeriodSchema.optional(), // Window for price_change and volume sorting
+});
+export type SortOptions = z.infer<typeof sortOptionsSchema>;
+
+export const MAX_PAGE_SIZE = 100;
+
+export const paginationOptionsSchema = z.object({
+  limit: numeric(z.number().int().min(1).max(MAX_PAGE_SIZE)).optional(),
+  // Offset into the sorted list, as returned in next_cursor
+  cursor: z
+    .preprocess(
+      (value) => (typeof value === 'number' ? String(value) : value),
+      z.string().regex(/^\d+$/, 'Expected a non-negative integer')
+    )
+    .optional(),
+});
+export type PaginationOptions = z.infer<typeof paginationOptionsSchema>;
+
+// Optional token fields a client can ask for
+export const includeSchema = z.array(z.enum(['provenance']));
+export type IncludeOptions = z.infer<typeof includeSchema>;
+
+// ?include=provenance on the REST API
+export const includeQuerySchema = commaSeparated(includeSchema).optional();
+
+// Query parameters of the token list and its event stream, as one flat object
+export const tokenListQuerySchema = filterOptionsSchema.merge(paginationOptionsSchema).extend({
+  sortBy: sortOptionsSchema.shape.field,
+  order: sortOptionsSchema.shape.order,
+  include: includeQuerySchema,
+});
+
+export const clientPreferencesSchema = z.object({
+  filter: filterOptionsSchema.optional(),
+  sort: sortOptionsSchema.optional(),
+  pagination: paginationOptionsSchema.optional(),
+  include: includeSchema.optional(),
+});
+export type ClientPreferences = z.infer<typeof clientPreferencesSchema>;
+
+export interface ValidationIssue {
+  field: string; // Dotted path, e.g. 'filter.minVolume'
+  message: string;
+}
+
+export function validationIssues(error: z.ZodError): ValidationIssue[] {
+  return error.issues.map((issue) => ({
+    field: issue.path.join('.'),
+    message: issue.message,
+  }));
+}
@@ -1,41 +1,103 @@
+import { AnomalyFlag } from './options';
+
 export interface Token {
   token_address: string;
   token_name: string;
   token_ticker: string;
   price_sol: number;
   market_cap_sol: number;
+  market_cap_estimated?: boolean; // True when no source reported one and it was derived from volume
   volume_sol: number;
   liquidity_sol: number;
   transaction_count: number;
+  price_5m_change?: number;
   price_1hr_change?: number;
+  price_6hr_change?: number;
   price_24hr_change?: number;
   price_7d_change?: number;
+  volume_5m_sol?: number;
+  volume_1hr_sol?: number;
+  volume_6hr_sol?: number;
+  buy_count?: number; // 24h
+  sell_count?: number; // 24h
+  buy_sell_ratio?: number; // buy_count / sell_count, unset without sells
   protocol: string;
+  created_at?: number; // Timestamp the token's oldest known pool was created
+  age_seconds?: number; // Seconds since created_at, computed per request
   source?: string; // Which DEX API provided this data
   last_updated?: number; // Timestamp
+  pools?: Pool[]; // Every pool seen for this token; token metrics aggregate over these
+  confidence?: number; // 0-1 agreement between sources on the merged price
+  rejected_sources?: string[]; // Sources dropped as price outliers
+  provenance?: TokenProvenance; // Where each merged field came from (opt-in via ?include=provenance)
+  risk_score?: number; // 0-100 rug-risk score, computed per request
+  risk_reasons?: RiskReason[];
+  anomaly_flags?: AnomalyFlag[]; // Signs the reported volume is wash-traded or otherwise fake
 }
 
-export interface TokenResponse {
-  tokens: Token[];
-  next_cursor?: string;
-  total?: number;
+export interface RiskReason {
+  factor: string; // e.g. 'liquidity_ratio', 'pair_age'
+  points: number; // Contribution to risk_score
+  detail: string;
 }
 
-export interface FilterOptions {
-  timePeriod?: '1h' | '24h' | '7d';
-  minVolume?: number;
-  minLiquidity?: number;
-  protocol?: string;
+export interface FieldProvenance {
+  source: string; // Comma-joined when the value aggregates several sources
+  fetched_at?: number; // Timestamp of the newest input
 }
 
-export interface SortOptions {
-  field: 'volume' | 'price_change' | 'market_cap' | 'liquidity' | 'transaction_count';
-  order: 'asc' | 'desc';
+export type ProvenanceField =
+  | 'token_name'
+  | 'token_ticker'
+  | 'protocol'
+  | 'price_sol'
+  | 'market_cap_sol'
+  | 'volume_sol'
+  | 'liquidity_sol'
+  | 'transaction_count'
+  | 'price_5m_change'
+  | 'price_1hr_change'
+  | 'price_6hr_change'
+  | 'price_24hr_change'
+  | 'price_7d_change'
+  | 'volume_5m_sol'
+  | 'volume_1hr_sol'
+  | 'volume_6hr_sol'
+  | 'buy_count'
+  | 'sell_count';
+
+export type TokenProvenance = Partial<Record<ProvenanceField, FieldProvenance>>;
+
+export interface Pool {
+  pair_address: string;
+  dex: string;
+  quote_token: {
+    address: string;
+    symbol: string;
+  };
+  price_sol: number;
+  price_usd?: number;
+  liquidity_sol: number;
+  volume_sol: number; // 24h
+  transaction_count: number; // 24h
+  price_5m_change?: number;
+  price_1hr_change?: number;
+  price_6hr_change?: number;
+  price_24hr_change?: number;
+  volume_5m_sol?: number;
+  volume_1hr_sol?: number;
+  volume_6hr_sol?: number;
+  buy_count?: number; // 24h
+  sell_count?: number; // 24h
+  created_at?: number; // Timestamp the pool was created
+  source: string;
+  last_updated?: number; // Timestamp
 }
 
-export interface PaginationOptions {
-  limit?: number;
-  cursor?: string;
+export interface TokenResponse {
+  tokens: Token[];
+  next_cursor?: string;
+  total?: number;
 }
 
 export interface AggregatedTokenData {
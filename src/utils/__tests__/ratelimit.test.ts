@@ -0,0 +1,33 @@
+import { RateLimiter } from '../ratelimit';
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(0);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should space calls from concurrent callers by the interval', async () => {
+    const limiter = new RateLimiter(1000);
+    const started: number[] = [];
+    const calls = [1, 2, 3].map(() => limiter.schedule(async () => started.push(Date.now())));
+
+    await jest.advanceTimersByTimeAsync(2500);
+    await Promise.all(calls);
+
+    expect(started).toEqual([0, 1000, 2000]);
+  });
+
+  it('should not delay a call once the interval has passed', async () => {
+    const limiter = new RateLimiter(1000);
+    await limiter.acquire();
+    jest.setSystemTime(5000);
+
+    const start = Date.now();
+    await limiter.acquire();
+    expect(Date.now()).toBe(start);
+  });
+});
@@ -1,3 +1,4 @@
+import { AxiosError, AxiosHeaders } from 'axios';
 import { retryWithBackoff, calculateBackoffDelay, sleep } from '../retry';
 
 describe('Retry utilities', () => {
@@ -45,6 +46,31 @@ describe('Retry utilities', () => {
       );
       expect(fn).toHaveBeenCalledTimes(3); // Initial + 2 retries
     });
+
+    it('should retry listed statuses but not other HTTP errors', async () => {
+      const httpError = (status: number) =>
+        new AxiosError(
+          `Request failed with status code ${status}`,
+          'ERR_BAD_RESPONSE',
+          undefined,
+          {},
+          {
+            status,
+            statusText: '',
+            data: {},
+            headers: {},
+            config: { headers: new AxiosHeaders() },
+          }
+        );
+
+      const unavailable = jest.fn().mockRejectedValueOnce(httpError(503)).mockResolvedValue('ok');
+      await expect(retryWithBackoff(unavailable, { baseDelay: 10 })).resolves.toBe('ok');
+      expect(unavailable).toHaveBeenCalledTimes(2);
+
+      const notFound = jest.fn().mockRejectedValue(httpError(404));
+      await expect(retryWithBackoff(notFound, { baseDelay: 10 })).rejects.toThrow('404');
+      expect(notFound).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe('sleep', () => {
@@ -0,0 +1,18 @@
+import { Request, Response, NextFunction } from 'express';
+
+// Routes behind this require the x-api-key header when ADMIN_API_KEY is set,
+// and are disabled in production when it is not
+export function requireApiKey(req: Request, res: Response, next: NextFunction) {
+  const apiKey = process.env.ADMIN_API_KEY;
+  if (!apiKey) {
+    if (process.env.NODE_ENV === 'production') {
+      return res.status(503).json({ error: 'API disabled: ADMIN_API_KEY is not set' });
+    }
+    return next();
+  }
+
+  if (req.header('x-api-key') !== apiKey) {
+    return res.status(401).json({ error: 'Invalid or missing API key' });
+  }
+  return next();
+}
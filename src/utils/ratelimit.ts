@@ -0,0 +1,26 @@
+import { sleep } from './retry';
+
+/**
+ * Spaces calls at least `intervalMs` apart, across every caller sharing the
+ * limiter. Slots are handed out in the order acquire() is called, so a
+ * request budget holds however many refreshes overlap.
+ */
+export class RateLimiter {
+  private nextSlot = 0;
+
+  constructor(private intervalMs: number) {}
+
+  async acquire(): Promise<void> {
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot);
+    this.nextSlot = slot + this.intervalMs;
+    if (slot > now) {
+      await sleep(slot - now);
+    }
+  }
+
+  async schedule<T>(fn: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    return fn();
+  }
+}
@@ -50,12 +50,12 @@ export async function retryWithBackoff<T>(
         break;
       }
 
+      // Network errors and the listed statuses may clear up; a 404 won't
       const isRetryable =
         axios.isAxiosError(error) &&
-        error.response &&
-        retryableStatusCodes.includes(error.response.status);
+        (!error.response || retryableStatusCodes.includes(error.response.status));
 
-      if (!isRetryable && !axios.isAxiosError(error)) {
+      if (!isRetryable) {
         throw error;
       }
 